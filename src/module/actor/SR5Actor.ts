@@ -4,9 +4,10 @@ import {SR5Item} from '../item/SR5Item';
 import {FLAGS, SKILL_DEFAULT_NAME, SR, SYSTEM_NAME} from '../constants';
 import {PartsList} from '../parts/PartsList';
 import {ShadowrunActorDialogs} from "../apps/dialogs/ShadowrunActorDialogs";
-import {createRollChatMessage} from "../chat";
+import {createConvergenceChatMessage, createRollChatMessage} from "../chat";
 import {SR5Combat} from "../combat/SR5Combat";
 import {SoakFlow} from './flows/SoakFlow';
+import {DamageApplicationFlow} from './flows/DamageApplicationFlow';
 import {DefaultValues} from '../data/DataDefaults';
 import {SkillFlow} from "./flows/SkillFlow";
 import ActorRollOptions = Shadowrun.ActorRollOptions;
@@ -31,6 +32,8 @@ import ActorArmorData = Shadowrun.ActorArmorData;
 import ConditionData = Shadowrun.ConditionData;
 import Skills = Shadowrun.Skills;
 import {SkillRules} from "../rules/SkillRules";
+import {VehicleRules} from "../rules/VehicleRules";
+import {MatrixRules} from "../rules/MatrixRules";
 import CharacterSkills = Shadowrun.CharacterSkills;
 import {SR5} from "../config";
 import ShadowrunActorData = Shadowrun.ShadowrunActorData;
@@ -39,15 +42,40 @@ import {SR5ItemDataWrapper} from "../data/SR5ItemDataWrapper";
 import {CritterDataPrepare} from "./prep/CritterPrep";
 import {SpiritDataPrepare} from "./prep/SpiritPrep";
 import {SpriteDataPrepare} from "./prep/SpritePrep";
+import {HostDataPrepare, ICDataPrepare} from "./prep/HostPrep";
 import {VehicleDataPreparation} from "./prep/VehiclePrep";
 import SpiritActorData = Shadowrun.SpiritActorData;
 import CharacterData = Shadowrun.CharacterData;
 import CharacterActorData = Shadowrun.CharacterActorData;
 import SpriteActorData = Shadowrun.SpriteActorData;
+import HostActorData = Shadowrun.HostActorData;
+import ICActorData = Shadowrun.ICActorData;
+import ICType = Shadowrun.ICType;
 import VehicleData = Shadowrun.VehicleData;
 import VehicleActorData = Shadowrun.VehicleActorData;
+import AutosoftTypes = Shadowrun.AutosoftTypes;
+import ProgramItemData = Shadowrun.ProgramItemData;
+import MatrixMark = Shadowrun.MatrixMark;
+import MatrixAttackEffect = Shadowrun.MatrixAttackEffect;
+import MatrixAttribute = Shadowrun.MatrixAttribute;
+import ProgramEffectTypes = Shadowrun.ProgramEffectTypes;
+import DeviceAttributeAssignment = Shadowrun.DeviceAttributeAssignment;
+import DeviceAttributeKey = Shadowrun.DeviceAttributeKey;
 import CritterActorData = Shadowrun.CritterActorData;
 import {Modifiers} from "../rules/Modifiers";
+import {CombatRules} from "../rules/CombatRules";
+import {CompileSpriteDialog, CompileSpriteData} from "../apps/dialogs/CompileSpriteDialog";
+import {SummonSpiritDialog, SummonSpiritData} from "../apps/dialogs/SummonSpiritDialog";
+import {BindSpiritDialog} from "../apps/dialogs/BindSpiritDialog";
+import {MagicRules} from "../rules/MagicRules";
+import {SocketMessage} from "../sockets";
+import {MarkPlacementDialog} from "../apps/dialogs/MarkPlacementDialog";
+import DamageType = Shadowrun.DamageType;
+import SpriteType = Shadowrun.SpriteType;
+import SpiritType = Shadowrun.SpiritType;
+import SustainedEffect = Shadowrun.SustainedEffect;
+import MetamagicType = Shadowrun.MetamagicType;
+import FocusType = Shadowrun.FocusType;
 
 /**
  * The general Shadowrun actor implementation, which currently handles all actor types.
@@ -77,6 +105,20 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         }
     }
 
+    /** Raise the overwatch score and let the demiGOD converge once it reaches its limit.
+     *
+     * @param value The amount to add to the current overwatch score.
+     */
+    async addOverwatchScore(value: number) {
+        const before = this.getOverwatchScore();
+        const after = before + value;
+        await this.setOverwatchScore(after);
+
+        if (MatrixRules.triggersConvergence(before, after)) {
+            await this.converge();
+        }
+    }
+
     /**
      * General data preparation order.
      * Check base, embeddedEntities and derived methods (see super.prepareData implementation for order)
@@ -127,6 +169,12 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
             case "vehicle":
                 VehicleDataPreparation(this.data.data, itemDataWrappers);
                 break;
+            case "host":
+                HostDataPrepare(this.data.data, itemDataWrappers);
+                break;
+            case "ic":
+                ICDataPrepare(this.data.data, itemDataWrappers, this.getICHost()?.asHostData()?.data);
+                break;
         }
     }
 
@@ -287,6 +335,14 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         return this.getType() === 'vehicle';
     }
 
+    isHost(): boolean {
+        return this.getType() === 'host';
+    }
+
+    isIC(): boolean {
+        return this.getType() === 'ic';
+    }
+
     isGrunt() {
         if (!("is_npc" in this.data.data) || !("npc" in this.data.data)) return false;
 
@@ -319,7 +375,7 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
     }
 
     getVehicleTypeSkill(): SkillField | undefined {
-        if (this.isVehicle()) return;
+        if (!this.isVehicle()) return;
 
         const name = this.getVehicleTypeSkillName();
         return this.findActiveSkill(name);
@@ -597,7 +653,7 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
                 await this.sheet.render();
     }
 
-    async rollFade(options: ActorRollOptions = {}, incoming = -1): Promise<ShadowrunRoll|undefined> {
+    async rollFade(options: ActorRollOptions = {}, incoming = -1, damageType: DamageType = 'stun'): Promise<ShadowrunRoll|undefined> {
         const wil = duplicate(this.data.data.attributes.willpower);
         const res = duplicate(this.data.data.attributes.resonance);
         const data = this.data.data;
@@ -621,7 +677,7 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         if (!roll) return;
 
         // Reduce damage by soak roll and inform user.
-        const incomingDamage = Helpers.createDamageData(incoming, 'stun');
+        const incomingDamage = Helpers.createDamageData(incoming, damageType);
         const damage = Helpers.reduceDamageByHits(incomingDamage, roll.hits, 'SR5.Fade');
 
         await createRollChatMessage({title, roll, actor, damage});
@@ -629,7 +685,7 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         return roll;
     }
 
-    async rollDrain(options: ActorRollOptions = {}, incoming = -1): Promise<ShadowrunRoll|undefined> {
+    async rollDrain(options: ActorRollOptions = {}, incoming = -1, damageType: DamageType = 'stun'): Promise<ShadowrunRoll|undefined> {
         if (!this.isCharacter()) return;
 
         const data = this.data.data as CharacterData;
@@ -641,6 +697,8 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         parts.addPart(wil.label, wil.value);
         parts.addPart(drainAtt.label, drainAtt.value);
         if (data.modifiers.drain) parts.addUniquePart('SR5.Bonus', data.modifiers.drain);
+        const centering = MagicRules.centeringDice(this.getMetamagics(), this.getInitiationGrade());
+        if (centering) parts.addUniquePart('SR5.Metamagic.Types.Centering', centering);
 
         let title = `${game.i18n.localize('SR5.Resist')} ${game.i18n.localize('SR5.Drain')}`;
         const actor = this;
@@ -655,7 +713,7 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         if (!roll) return;
 
         // Reduce damage by soak roll and inform user.
-        const incomingDamage = Helpers.createDamageData(incoming, 'stun');
+        const incomingDamage = Helpers.createDamageData(incoming, damageType);
         const damage = Helpers.reduceDamageByHits(incomingDamage, roll.hits, 'SR5.Drain');
 
         await createRollChatMessage({title, roll, actor, damage});
@@ -685,45 +743,60 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
 
         if (defenseDialog.canceled) return;
 
+        // Interrupt actions can't be taken without enough initiative score left.
+        const {interrupt} = defenseActionData.combat;
+        if (interrupt && !this.canUseInterruptAction(interrupt)) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.InterruptActionInitiativeTooLow'));
+            return;
+        }
+
         const roll = await ShadowrunRoller.advancedRoll({
             event: options.event,
             actor: this,
             parts: defenseActionData.parts.list,
             title: game.i18n.localize('SR5.DefenseTest'),
             incomingAttack: attack,
-            combat: defenseActionData.combat
+            combat: defenseActionData.combat,
+            hideRollMessage: true
         });
 
         if (!roll) return;
 
         // Reduce initiative after a successful roll, but before attack handling, to allow for the standalone sheet
         // defense action to still reduce the initiative.
-        if (defenseActionData.combat.initiative) {
-            await this.changeCombatInitiative(defenseActionData.combat.initiative);
+        if (interrupt) {
+            await this.useInterruptAction(interrupt);
         }
 
-        if (!attack) return;
-
         // Collect defense information.
-        let defenderHits = roll.total;
-        let attackerHits = attack.hits || 0;
-        let netHits = Math.max(attackerHits - defenderHits, 0);
+        const defenderHits = roll.hits;
+        const attackerHits = attack?.hits || 0;
+        const netHits = CombatRules.netHits(attackerHits, defenderHits);
 
-        // Reduce damage flow.
-        let damage = attack.damage;
+        const title = game.i18n.localize('SR5.DefenseTest');
+        const actor = this;
+        const opposed = attack ? {netHits, missed: CombatRules.attackMisses(attackerHits, defenderHits)} : undefined;
+        await createRollChatMessage({title, roll, actor, incomingAttack: attack, combat: defenseActionData.combat, opposed});
 
-        // modified damage value by netHits.
-        if (netHits > 0) {
-            const {modified} = Helpers.modifyDamageByHits(damage, netHits, "SR5.NetHits");
-            damage = modified;
-        }
+        if (!attack || !opposed) return roll;
+
+        // A missed attack doesn't need to be soaked.
+        if (opposed.missed) return roll;
+
+        // Modify damage by net hits and hand it over to the damage resistance test.
+        const damage = CombatRules.modifyDamageAfterHit(attackerHits, defenderHits, attack.damage);
 
         const soakRollOptions = {
             event: options.event,
             damage,
+            attackerHits,
+            defenderHits,
+            netHits
         };
 
         await this.rollSoak(soakRollOptions);
+
+        return roll;
     }
 
     async rollDirectSpellDefense(spell: SR5Item, options: SpellDefenseOptions): Promise<ShadowrunRoll | undefined> {
@@ -735,7 +808,11 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
             SR.defense.spell.direct.mana :
             SR.defense.spell.direct.physical;
 
-        const roll = await this.rollSingleAttribute(attribute, options);
+        const parts = new PartsList<number>();
+        const shielding = MagicRules.shieldingDice(this.getMetamagics(), this.getInitiationGrade());
+        if (shielding) parts.addUniquePart('SR5.Metamagic.Types.Shielding', shielding);
+
+        const roll = await this.rollSingleAttribute(attribute, options, parts.list);
 
         if (!roll) return;
 
@@ -749,6 +826,11 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
 
         await createRollChatMessage({title, roll, actor, damage});
 
+        // Direct combat spells can't be soaked, offer to apply the resulting damage directly.
+        if (damage.modified.value > 0) {
+            await new DamageApplicationFlow().runApplyDamage([this], damage.modified);
+        }
+
         return roll;
     }
 
@@ -768,9 +850,9 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         return new SoakFlow().runSoakTest(this, options, partsProps);
     }
 
-    rollSingleAttribute(attId, options: ActorRollOptions) {
+    rollSingleAttribute(attId, options: ActorRollOptions, partsProps: ModList<number> = []) {
         const attr = duplicate(this.data.data.attributes[attId]);
-        const parts = new PartsList<number>();
+        const parts = new PartsList<number>(partsProps);
         parts.addUniquePart(attr.label, attr.value);
         this._addMatrixParts(parts, attr);
         this._addGlobalParts(parts);
@@ -1038,12 +1120,11 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
             const parts = new PartsList<number>();
 
             const pilot = Helpers.calcTotal(actorData.vehicle_stats.pilot);
-            // TODO possibly look for autosoft item level?
-            const perception = this.findActiveSkill('perception');
+            const clearsight = this.getAutosoftOrSkillValue('clearsight', this.findActiveSkill('perception'));
             const limit = this.findLimit('sensor');
 
-            if (perception && limit) {
-                parts.addPart('SR5.Vehicle.Clearsight', Helpers.calcTotal(perception));
+            if (clearsight !== undefined && limit) {
+                parts.addPart('SR5.Vehicle.Clearsight', clearsight);
                 parts.addPart('SR5.Vehicle.Stats.Pilot', pilot);
 
                 this._addGlobalParts(parts);
@@ -1070,14 +1151,13 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
             const parts = new PartsList<number>();
 
             const pilot = Helpers.calcTotal(actorData.vehicle_stats.pilot);
-            let skill: SkillField | undefined = this.getVehicleTypeSkill();
+            const maneuvering = this.getAutosoftOrSkillValue('maneuvering', this.getVehicleTypeSkill(), actorData.model);
             const environment = actorData.environment;
             const limit = this.findLimit(environment);
 
-            if (skill && limit) {
+            if (maneuvering !== undefined && limit) {
                 parts.addPart('SR5.Vehicle.Stats.Pilot', pilot);
-                // TODO possibly look for autosoft item level?
-                parts.addPart('SR5.Vehicle.Maneuvering', Helpers.calcTotal(skill));
+                parts.addPart('SR5.Vehicle.Maneuvering', maneuvering);
 
                 this._addGlobalParts(parts);
 
@@ -1105,12 +1185,11 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
             const parts = new PartsList<number>();
 
             const pilot = Helpers.calcTotal(actorData.vehicle_stats.pilot);
-            // TODO possibly look for autosoft item level?
-            const sneaking = this.findActiveSkill('sneaking');
+            const stealth = this.getAutosoftOrSkillValue('stealth', this.findActiveSkill('sneaking'));
             const limit = this.findLimit('sensor');
 
-            if (sneaking && limit) {
-                parts.addPart('SR5.Vehicle.Stealth', Helpers.calcTotal(sneaking));
+            if (stealth !== undefined && limit) {
+                parts.addPart('SR5.Vehicle.Stealth', stealth);
                 parts.addPart('SR5.Vehicle.Stats.Pilot', pilot);
 
                 this._addGlobalParts(parts);
@@ -1212,6 +1291,62 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         if (this.data.data.modifiers.global) {
             parts.addUniquePart('SR5.Global', this.data.data.modifiers.global);
         }
+        if (this.isDisoriented()) {
+            parts.addUniquePart('SR5.Dumpshock.Disoriented', SR.matrix.dumpshock_disorientation);
+        }
+        if ("magic" in this.data.data) {
+            const multitasking = MagicRules.astralPerceptionModifier(this.data.data.magic);
+            if (multitasking) parts.addUniquePart('SR5.Astral.Multitasking', multitasking);
+        }
+        const sustaining = MagicRules.sustainingModifier(this.getSustainedEffects());
+        if (sustaining) {
+            parts.addUniquePart('SR5.Sustaining.Label', sustaining);
+        }
+    }
+
+    /** Add the gunnery pool for weapons mounted on this vehicle, depending on its control mode.
+     *
+     * The driver fires with Gunnery + Agility or Logic, the autopilot with Pilot + Targeting autosoft.
+     *
+     * @param parts The parts list to add to.
+     * @param weaponName The weapon fired, to find a matching Targeting autosoft.
+     */
+    _addVehicleGunneryParts(parts: PartsList<number>, weaponName: string) {
+        const vehicleData = this.asVehicleData();
+        if (!vehicleData) return;
+
+        const {controlMode} = vehicleData.data;
+        const attributeName = VehicleRules.gunneryAttribute(controlMode);
+
+        if (!attributeName) {
+            const pilot = this.findVehicleStat('pilot');
+            if (pilot) parts.addUniquePart('SR5.Vehicle.Stats.Pilot', Helpers.calcTotal(pilot));
+            const targeting = this.getAutosoftOrSkillValue('targeting', this.findActiveSkill('gunnery'), weaponName);
+            if (targeting !== undefined) parts.addUniquePart('SR5.Vehicle.Targeting', targeting);
+            return;
+        }
+
+        const driver = this.getVehicleDriver();
+        if (!driver) return;
+
+        const attribute = driver.findAttribute(attributeName);
+        if (attribute) parts.addUniquePart(attribute.label, attribute.value);
+        const gunnery = driver.findActiveSkill('gunnery');
+        if (gunnery) {
+            parts.addUniquePart(gunnery.label || 'SR5.SkillGunnery', gunnery.value);
+            SkillFlow.handleDefaulting(gunnery, parts);
+        }
+    }
+
+    /** The limit of weapons mounted on this vehicle, if it differs from the weapons accuracy.
+     */
+    getVehicleGunneryLimit(): LimitField | undefined {
+        const vehicleData = this.asVehicleData();
+        if (!vehicleData) return;
+        if (!VehicleRules.gunneryUsesSensorLimit(vehicleData.data.controlMode)) return;
+
+        const sensor = this.findLimit('sensor');
+        if (sensor) return {...sensor, label: 'SR5.Vehicle.Stats.Sensor'};
     }
 
     _addDefenseParts(parts: PartsList<number>) {
@@ -1220,8 +1355,11 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
             if (pilot) {
                 parts.addUniquePart(pilot.label, Helpers.calcTotal(pilot));
             }
+            const evasion = this.getAutosoftRating('evasion');
             const skill = this.getVehicleTypeSkill();
-            if (skill) {
+            if (evasion !== undefined) {
+                parts.addUniquePart('SR5.Vehicle.Evasion', evasion);
+            } else if (skill) {
                 parts.addUniquePart('SR5.Vehicle.Maneuvering', Helpers.calcTotal(skill));
             }
         } else {
@@ -1610,6 +1748,483 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         await combat.adjustInitiative(combatant, modifier);
     }
 
+    /** Return all marks this actors persona placed onto other icons.
+     */
+    getMarks(): MatrixMark[] {
+        if (!("matrix" in this.data.data)) return [];
+        return this.data.data.matrix.marks ?? [];
+    }
+
+    /** Return the marks this actors persona placed onto the given icon.
+     *
+     * @param uuid The marked actor or owned item uuid.
+     */
+    getMarksOn(uuid: string): number {
+        return this.getMarks().find(mark => mark.uuid === uuid)?.marks ?? 0;
+    }
+
+    /** Place marks onto a persona or owned device icon. Marks add up to the existing marks on that icon.
+     *
+     * @param target The actor or owned item to mark.
+     * @param marks The amount of marks to place.
+     */
+    async placeMarks(target: SR5Actor | SR5Item, marks: number) {
+        if (!("matrix" in this.data.data)) return;
+
+        const uuid = target.uuid;
+        const current = this.getMarksOn(uuid);
+        const updated = this.getMarks().filter(mark => mark.uuid !== uuid);
+        updated.push({uuid, name: target.name as string, marks: MatrixRules.addMarks(current, marks)});
+
+        await this.update({'data.matrix.marks': updated});
+    }
+
+    /** Remove marks this actors persona placed.
+     *
+     * @param uuid Only remove the marks on this icon. Without it, all marks will be removed.
+     */
+    async clearMarks(uuid?: string) {
+        if (!("matrix" in this.data.data)) return;
+
+        const marks = uuid ? this.getMarks().filter(mark => mark.uuid !== uuid) : [];
+        await this.update({'data.matrix.marks': marks});
+    }
+
+    /** Collect all marks other actors placed onto this actors persona or owned devices.
+     */
+    getMarksOnThis(): {actor: SR5Actor, mark: MatrixMark}[] {
+        const marked: {actor: SR5Actor, mark: MatrixMark}[] = [];
+        // Owned item uuids are prefixed by their actors uuid.
+        const isMarked = (mark: MatrixMark) => mark.uuid === this.uuid || mark.uuid.startsWith(`${this.uuid}.`);
+
+        game.actors.forEach(actor => {
+            (actor as SR5Actor).getMarks().filter(isMarked).forEach(mark => marked.push({actor: actor as SR5Actor, mark}));
+        });
+
+        return marked;
+    }
+
+    /** Rebooting removes all marks placed by and onto this actors persona and resets its overwatch score.
+     *
+     * @PDF SR5#242 'Reboot Device'
+     */
+    async rebootPersona() {
+        for (const {actor, mark} of this.getMarksOnThis()) {
+            await SocketMessage.emitForGM(FLAGS.ClearMarks, {actorId: actor.id, uuid: mark.uuid});
+        }
+        await this.clearMarks();
+        await this.setOverwatchScore(0);
+    }
+
+    /** The demiGOD converged on this persona. It takes matrix damage, is forced to reboot and its physical location
+     * is revealed.
+     *
+     * @PDF SR5#231 'Overwatch Score and Convergence'
+     */
+    async converge() {
+        const overwatchScore = this.getOverwatchScore();
+        await createConvergenceChatMessage(this, overwatchScore);
+
+        const value = SR.matrix.convergence.damage;
+        const damage = DefaultValues.damageData({type: {base: 'matrix', value: 'matrix'}, base: value, value});
+        await new DamageApplicationFlow().applyDamageToActor(this, damage);
+
+        await this.dumpshock();
+        await this.rebootPersona();
+        await this.revealTokens();
+    }
+
+    /** Being forcefully disconnected from the matrix while in VR causes resisted dumpshock damage and disorientation.
+     *
+     * @PDF SR5#229 'Dumpshock'
+     */
+    async dumpshock() {
+        const data = this.data.data;
+        if (!("matrix" in data) || !this.isInVR()) return;
+
+        const type = MatrixRules.dumpshockDamageType(data.matrix.hot_sim);
+        const damage = await this.rollDumpshock(SR.matrix.dumpshock_damage, type);
+        if (damage) await new DamageApplicationFlow().applyDamageToActor(this, damage);
+
+        await this.update({
+            'data.initiative.perception': 'meatspace',
+            'data.matrix.link_locked': false,
+            'data.matrix.link_locked_by': '',
+            'data.matrix.disoriented': true
+        });
+    }
+
+    /** Resist dumpshock with Willpower + Firewall.
+     *
+     * @PDF SR5#229 'Dumpshock'
+     * @param incoming The dumpshock damage value.
+     * @param damageType The dumpshock damage type, depending on the VR mode used.
+     * @return The remaining damage, should the resistance test have been rolled.
+     */
+    async rollDumpshock(incoming: number, damageType: DamageType): Promise<DamageData|undefined> {
+        const data = this.data.data;
+        if (!("matrix" in data)) return;
+
+        const wil = duplicate(data.attributes.willpower);
+
+        const parts = new PartsList<number>();
+        parts.addUniquePart(wil.label, wil.value);
+        parts.addUniquePart(SR5.matrixAttributes.firewall, data.matrix.firewall.value);
+
+        const title = `${game.i18n.localize('SR5.Resist')} ${game.i18n.localize('SR5.Dumpshock.Label')}`;
+        const actor = this;
+        const roll = await ShadowrunRoller.advancedRoll({
+            parts: parts.list,
+            actor,
+            title,
+            wounds: false,
+            hideRollMessage: true
+        });
+
+        if (!roll) return;
+
+        const incomingDamage = Helpers.createDamageData(incoming, damageType);
+        const damage = Helpers.reduceDamageByHits(incomingDamage, roll.hits, 'SR5.Dumpshock.Label');
+
+        await createRollChatMessage({title, roll, actor, damage});
+
+        return damage.modified;
+    }
+
+    /** Personas using VR are affected by biofeedback and dumpshock. Vehicles never are.
+     */
+    isInVR(): boolean {
+        const data = this.data.data;
+        if (this.isVehicle() || !("initiative" in data)) return false;
+        return data.initiative.perception === 'matrix';
+    }
+
+    isUsingHotSim(): boolean {
+        const data = this.data.data;
+        return "matrix" in data && data.matrix.hot_sim;
+    }
+
+    isLinkLocked(): boolean {
+        const data = this.data.data;
+        return "matrix" in data && data.matrix.link_locked;
+    }
+
+    /**
+     * @param linkLocked Whether the persona is link-locked.
+     * @param actorId The actor whose icon link-locked the persona.
+     */
+    async setLinkLocked(linkLocked: boolean, actorId: string = '') {
+        if (!("matrix" in this.data.data)) return;
+        await this.update({'data.matrix.link_locked': linkLocked, 'data.matrix.link_locked_by': linkLocked ? actorId : ''});
+    }
+
+    isDisoriented(): boolean {
+        const data = this.data.data;
+        return "matrix" in data && data.matrix.disoriented;
+    }
+
+    async setDisoriented(disoriented: boolean) {
+        if (!("matrix" in this.data.data)) return;
+        await this.update({'data.matrix.disoriented': disoriented});
+    }
+
+    /** Check if the matrix condition monitor of the actors matrix device is filled.
+     */
+    isMatrixDeviceBricked(): boolean {
+        const track = this.getMatrixTrack();
+        if (!track) return false;
+        return MatrixRules.isBricked(track.value, track.max);
+    }
+
+    /** Follow up effects of matrix damage dealt by this actor, depending on its IC type or running programs.
+     */
+    getMatrixAttackEffect(): MatrixAttackEffect {
+        const icData = this.asICData();
+        if (icData) return MatrixRules.icAttack(icData.data.icType) ?? {};
+        return MatrixRules.programAttackEffect(this.getRunningPrograms());
+    }
+
+    /** Leave the matrix using a Simple Action. Link-locked personas must break the link-lock first.
+     *
+     * @PDF SR5#240 'Jack Out'
+     */
+    async jackOut() {
+        if (!this.isInVR()) return;
+        if (!this.canTakeAction('simple')) return;
+
+        if (this.isLinkLocked() && !await this.breakLinkLock()) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.LinkLocked'));
+            await this.takeAction('simple');
+            return;
+        }
+
+        await this.update({'data.initiative.perception': 'meatspace'});
+        await this.takeAction('simple');
+    }
+
+    /** Test Hardware + Willpower [Firewall] against Logic + Attack of the icon that link-locked this persona.
+     *
+     * @PDF SR5#240 'Jack Out'
+     * @return Whether the link-lock has been broken.
+     */
+    async breakLinkLock(): Promise<boolean> {
+        const data = this.data.data;
+        if (!("matrix" in data)) return false;
+
+        const hardware = this.getSkill('hardware');
+        const willpower = this.getAttribute('willpower');
+        const parts = new PartsList<number>();
+        if (hardware) parts.addUniquePart(this.getSkillLabel('hardware'), hardware.value);
+        parts.addUniquePart(willpower.label, willpower.value);
+
+        const title = game.i18n.localize('SR5.LinkLock.Break');
+        const limit = {label: SR5.matrixAttributes.firewall, base: data.matrix.firewall.value, value: data.matrix.firewall.value, mod: [], hidden: false};
+        const roll = await ShadowrunRoller.advancedRoll({parts: parts.list, actor: this, title, limit});
+        if (!roll) return false;
+
+        // Without a known attacker, e.g. a manually set link-lock, any hit breaks it.
+        let resistHits = 0;
+        const attacker = game.actors.get(data.matrix.link_locked_by) as SR5Actor;
+        const attackerData = attacker?.data.data;
+        if (attackerData && "matrix" in attackerData) {
+            const logic = attacker.getAttribute('logic');
+            const resistParts = new PartsList<number>();
+            resistParts.addUniquePart(logic.label, logic.value);
+            resistParts.addUniquePart(SR5.matrixAttributes.attack, attackerData.matrix.attack.value);
+
+            const resistRoll = await ShadowrunRoller.basicRoll({
+                parts: resistParts.list,
+                title: `${title} - ${game.i18n.localize('SR5.Resist')}`
+            });
+            if (!resistRoll) return false;
+            resistHits = resistRoll.hits;
+        }
+
+        if (roll.hits <= resistHits) return false;
+
+        await this.setLinkLocked(false);
+        return true;
+    }
+
+    /** Make all hidden tokens of this actor visible on their scenes.
+     */
+    async revealTokens() {
+        for (const token of this.getActiveTokens()) {
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            if (token.data.hidden) await token.document.update({hidden: false});
+        }
+    }
+
+    /** The owner of a marked icon can spend an action to remove marks placed onto it.
+     *
+     * @param actorId The actor that placed the marks.
+     * @param uuid The marked icon uuid.
+     */
+    async removeMarksOnThis(actorId: string, uuid: string) {
+        if (!this.canTakeAction('complex')) return;
+
+        const actor = game.actors.get(actorId) as SR5Actor;
+        if (!actor) return;
+
+        // The marking actor is usually owned by another user.
+        await SocketMessage.emitForGM(FLAGS.ClearMarks, {actorId, uuid});
+        await this.takeAction('complex');
+    }
+
+    /** Let the owner of the acting persona decide which icon of a defeated defender to place marks on.
+     *
+     * @param target The actor that defended against a matrix action.
+     * @param marks The amount of marks to place.
+     */
+    async selectMarkPlacement(target: SR5Actor, marks: number) {
+        const dialog = new MarkPlacementDialog(target, marks);
+        const icon = await dialog.select();
+        if (dialog.canceled || !icon) return;
+
+        await this.placeMarks(icon, marks);
+        ui.notifications?.info(game.i18n.format('SR5.Marks.Placed', {marks, name: icon.name}));
+    }
+
+    /** Register socket handlers for changes to actors a player might not own.
+     */
+    static registerSocketHandlers() {
+        SocketMessage.registerHandler(FLAGS.ClearMarks, async ({actorId, uuid}) => {
+            const actor = game.actors.get(actorId) as SR5Actor;
+            await actor?.clearMarks(uuid);
+        });
+        SocketMessage.registerHandler(FLAGS.AddOverwatchScore, async ({actorUuid, value}) => {
+            const actor = await Helpers.getActorFromUuid(actorUuid);
+            await actor?.addOverwatchScore(value);
+        });
+        SocketMessage.registerHandler(FLAGS.CreateSummonedActor, async ({summonerId, sceneId, data}) => {
+            const summoner = game.actors.get(summonerId) as SR5Actor;
+            const actor = await Actor.create(data) as SR5Actor;
+            if (summoner && actor) await summoner.placeTokenNextToThis(actor, sceneId);
+        });
+        SocketMessage.registerHandler(FLAGS.DismissSummonedActor, async ({actorId}) => {
+            const actor = game.actors.get(actorId) as SR5Actor;
+            await actor?.dismissAsGM();
+        });
+    }
+
+    /** The names of all programs running on the actors matrix device.
+     */
+    getRunningPrograms(): string[] {
+        return this.items.filter(item => item.isRunningProgram()).map(item => item.name as string);
+    }
+
+    /** Sum up the effects of all running programs of the given type.
+     * @param type The program effect to sum up.
+     */
+    getProgramBonus(type: ProgramEffectTypes): number {
+        return MatrixRules.programBonus(this.getRunningPrograms(), type);
+    }
+
+    /** The amount of programs the actors matrix device can run at once.
+     * Without a matrix device, there is nothing to limit running programs.
+     */
+    getProgramSlots(): number | undefined {
+        const device = this.getMatrixDevice();
+        if (!device) return;
+        return MatrixRules.programSlots(device.getRating(), this.getRunningPrograms());
+    }
+
+    /** Check if another program can be loaded into the actors matrix device.
+     */
+    canLoadProgram(): boolean {
+        const slots = this.getProgramSlots();
+        if (slots === undefined) return true;
+        return this.getRunningPrograms().length < slots;
+    }
+
+    /** A running Configurator program allows more than one cyberdeck reconfiguration per action phase.
+     */
+    hasRunningConfigurator(): boolean {
+        return this.getRunningPrograms().some(name => name.toLowerCase().includes('configurator'));
+    }
+
+    /** Reconfigure the equipped cyberdeck, which is a free action limited to once per action phase.
+     * Outside of combat, there is no action phase to limit reconfiguration.
+     *
+     * @param atts The new assignment of matrix attributes onto the cyberdeck attributes.
+     */
+    async reconfigureDevice(atts: DeviceAttributeAssignment) {
+        const device = this.getMatrixDevice();
+        if (!device || !device.isCyberdeck()) return;
+
+        const combatant = this.getCombatant();
+        if (combatant) {
+            const combat = game.combat as SR5Combat;
+            if (!combat.canReconfigure(combatant, this.hasRunningConfigurator())) return;
+            if (!this.canTakeAction('free')) return;
+            await combat.markReconfigured(combatant);
+            await combat.takeAction(combatant, 'free');
+        }
+
+        await device.setDeviceAttributeAssignment(atts);
+    }
+
+    /** Swap two matrix attributes of the equipped cyberdeck.
+     * @PDF SR5#229 'Cyberdecks'
+     *
+     * @param att The matrix attribute to move.
+     * @param deviceAtt The cyberdeck attribute to move it onto.
+     */
+    async swapMatrixAttributes(att: MatrixAttribute, deviceAtt: DeviceAttributeKey) {
+        const atts = this.getMatrixDevice()?.getDeviceAttributeAssignment();
+        if (!atts) return;
+        await this.reconfigureDevice(MatrixRules.swapDeviceAttributes(atts, deviceAtt, att));
+    }
+
+    /** Load a saved configuration of the equipped cyberdeck, which needs a running Configurator.
+     * @PDF SR5#245 'Configurator'
+     *
+     * @param index The index of the saved configuration on the cyberdeck.
+     */
+    async loadDeviceConfiguration(index: number) {
+        const configuration = this.getMatrixDevice()?.getDeviceConfigurations()[index];
+        if (!configuration) return;
+
+        if (!this.hasRunningConfigurator()) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.ConfiguratorNeeded'));
+            return;
+        }
+
+        await this.reconfigureDevice(configuration.atts);
+    }
+
+    /** Return the combatant of this actor within the currently open / selected combat.
+     */
+    getCombatant(): any | undefined {
+        const combat = game.combat as SR5Combat;
+        if (!combat) return;
+        return combat.getActorCombatant(this);
+    }
+
+    /** Check if this actor has enough initiative score left to use the given interrupt action.
+     * Outside of combat, there is no initiative score to limit interrupt actions.
+     */
+    canUseInterruptAction(action: string): boolean {
+        const combatant = this.getCombatant();
+        if (!combatant) return true;
+        return SR5Combat.canUseInterruptAction(combatant, action);
+    }
+
+    /** Use the given interrupt action and reduce initiative of the actor in the currently open / selected combat.
+     * @return false, when the interrupt action couldn't be used.
+     */
+    async useInterruptAction(action: string): Promise<boolean> {
+        const combatant = this.getCombatant();
+        if (!combatant) return true;
+        const combat = game.combat as SR5Combat;
+        return await combat.useInterruptAction(combatant, action);
+    }
+
+    /** Check if this actor can take an action of the given type within its current action phase.
+     * Outside of combat, there is no action phase to limit actions.
+     * @param type See SR5.actionTypes
+     */
+    canTakeAction(type: string): boolean {
+        const combatant = this.getCombatant();
+        if (!combatant) return true;
+        const combat = game.combat as SR5Combat;
+        return combat.canTakeAction(combatant, type);
+    }
+
+    /** Record an action of the given type as taken within the current action phase.
+     * @param type See SR5.actionTypes
+     */
+    async takeAction(type: string) {
+        const combatant = this.getCombatant();
+        if (!combatant) return;
+        const combat = game.combat as SR5Combat;
+        await combat.takeAction(combatant, type);
+    }
+
+    /** Bullets fired within consecutive action phases, causing progressive recoil.
+     * Outside of combat, there are no action phases to accumulate recoil over.
+     */
+    getAccumulatedRecoil(): number {
+        const combatant = this.getCombatant();
+        if (!combatant) return 0;
+        return SR5Combat.getAccumulatedRecoil(combatant);
+    }
+
+    async addAccumulatedRecoil(fired: number) {
+        const combatant = this.getCombatant();
+        if (!combatant) return;
+        const combat = game.combat as SR5Combat;
+        await combat.addRecoil(combatant, fired);
+    }
+
+    /** Full defense has been declared and is active until the next action phase of this actors combatant.
+     */
+    hasFullDefense(): boolean {
+        const combatant = this.getCombatant();
+        if (!combatant) return false;
+        return SR5Combat.hasFullDefense(combatant);
+    }
+
     hasDamageTracks(): boolean {
         return "track" in this.data.data;
     }
@@ -1636,6 +2251,703 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         }
     }
 
+    asHostData(): HostActorData | undefined {
+        if (this.isHost()) {
+            return this.data as HostActorData;
+        }
+    }
+
+    asICData(): ICActorData | undefined {
+        if (this.isIC()) {
+            return this.data as ICActorData;
+        }
+    }
+
+    /** The host that launched this IC.
+     * NOTE: During world initialization, other actors might not be available yet.
+     */
+    getICHost(): SR5Actor | undefined {
+        const ic = this.asICData();
+        if (!ic || !ic.data.host) return;
+        return game.actors?.get(ic.data.host) as SR5Actor;
+    }
+
+    /** Add an IC type to the security patrol of this host.
+     * @param icType The IC type to add.
+     */
+    async addHostIC(icType: ICType) {
+        const host = this.asHostData();
+        if (!host) return;
+        await this.update({'data.ic': [...host.data.ic, icType]});
+    }
+
+    async removeHostIC(index: number) {
+        const host = this.asHostData();
+        if (!host) return;
+        await this.update({'data.ic': host.data.ic.filter((_, i) => i !== index)});
+    }
+
+    /** Launch an IC of this host onto the current scene.
+     * IC actors are created once per host and type, each launch placing another unlinked token.
+     *
+     * @PDF SR5#247 'IC'
+     * @param icType The IC type to launch.
+     */
+    async launchIC(icType: ICType) {
+        const host = this.asHostData();
+        if (!host) return;
+
+        if (!canvas.ready || !canvas.scene) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.NoSceneForIC'));
+            return;
+        }
+
+        const ic = this.getLaunchedIC(icType) ?? await this.createIC(icType);
+        if (!ic) return;
+
+        // Place IC next to the host token, should the host be on the scene.
+        const hostToken = this.getActiveTokens()[0];
+        const x = hostToken ? hostToken.x + Number(canvas.grid.size) : Number(canvas.dimensions?.width) / 2;
+        const y = hostToken ? hostToken.y : Number(canvas.dimensions?.height) / 2;
+
+        const tokenData = {...duplicate(ic.data.token), x, y, actorId: ic.id, actorLink: false};
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        await canvas.scene.createEmbeddedDocuments('Token', [tokenData]);
+    }
+
+    /** All IC actors launched by this host, including the unlinked IC tokens on the current scene.
+     */
+    getLaunchedICs(): SR5Actor[] {
+        const launchedBy = (actor?: SR5Actor | null) => !!actor && actor.isIC() && actor.asICData()?.data.host === this.id;
+
+        const actors = game.actors.filter(actor => launchedBy(actor as SR5Actor)) as SR5Actor[];
+        if (canvas.ready) {
+            canvas.tokens.placeables.forEach(token => {
+                const actor = token.actor as SR5Actor;
+                if (launchedBy(actor) && !actors.includes(actor)) actors.push(actor);
+            });
+        }
+        return actors;
+    }
+
+    /** IC derive their values from their host, which need to follow changes on the host.
+     * Astral forms change visibility for all viewers.
+     * Rejoining the matrix ends disorientation caused by dumpshock.
+     */
+    static async onUpdateActor(actor: SR5Actor, data, options, userId: string) {
+        if (canvas.ready && hasProperty(data, 'data.magic')) {
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            canvas.sight.refresh();
+        }
+
+        // Only the updating user changes the actor again.
+        if (userId === game.user?.id && getProperty(data, 'data.initiative.perception') === 'matrix' && actor.isDisoriented()) {
+            await actor.setDisoriented(false);
+        }
+
+        if (!actor.isHost()) return;
+
+        actor.getLaunchedICs().forEach(ic => {
+            ic.prepareData();
+            if (ic.sheet?.rendered) ic.sheet.render(false);
+        });
+    }
+
+    /** An IC actor of the given type this host has already launched.
+     * @param icType The IC type.
+     */
+    getLaunchedIC(icType: ICType): SR5Actor | undefined {
+        return game.actors.find(actor => {
+            const ic = (actor as SR5Actor).asICData();
+            return !!ic && ic.data.host === this.id && ic.data.icType === icType;
+        }) as SR5Actor;
+    }
+
+    async createIC(icType: ICType): Promise<SR5Actor | undefined> {
+        const host = this.asHostData();
+        if (!host) return;
+
+        const name = `${game.i18n.localize(SR5.icTypes[icType])} (${this.name})`;
+        const items = [] as any[];
+
+        const attack = MatrixRules.icAttack(icType);
+        if (attack) {
+            const [attribute, attribute2] = attack.opposed;
+            const damage = attack.damage ?? '';
+            items.push({
+                name: `${game.i18n.localize(SR5.icTypes[icType])} ${game.i18n.localize('SR5.IC.Attack')}`,
+                type: 'action',
+                data: {
+                    action: DefaultValues.actionRollData({
+                        type: 'complex',
+                        skill: 'cybercombat',
+                        attribute: 'logic',
+                        limit: DefaultValues.limitData({attribute: 'attack'}),
+                        opposed: DefaultValues.opposedTestData({type: 'custom', attribute, attribute2}),
+                        damage: DefaultValues.damageData({type: {base: damage, value: damage}, attribute: damage ? 'attack' : ''})
+                    })
+                }
+            });
+        }
+
+        return await Actor.create({
+            name,
+            type: 'ic',
+            img: this.img,
+            folder: this.data.folder,
+            permission: duplicate(this.data.permission),
+            data: {icType, host: this.id, rating: host.data.rating},
+            items,
+            token: {name, actorLink: false}
+        }) as SR5Actor;
+    }
+
+    /** Compile a sprite of a chosen type and level, owing the technomancer a task for each net hit.
+     *
+     * @PDF SR5#254 'Compiling a Sprite'
+     */
+    async compileSprite() {
+        if (this.data.data.special !== 'resonance') return;
+
+        const resonance = Number(this.getAttribute('resonance').value);
+        const dialog = new CompileSpriteDialog(resonance);
+        const {spriteType, level} = await dialog.select() as CompileSpriteData;
+        if (dialog.canceled || !spriteType || !level) return;
+
+        const title = `${game.i18n.localize('SR5.Sprite.Compile')} ${game.i18n.localize(SR5.spriteTypes[spriteType])} (${level})`;
+        const result = await this.rollResistedTest('compiling', level, 'SR5.Sprite.Level', level, title);
+        if (!result) return;
+
+        // Fade is resisted before the sprite appears, as the technomancer might not be able to handle it.
+        const fade = MatrixRules.spriteFade(result.resistHits);
+        await this.rollFade({}, fade, MatrixRules.spriteFadeDamageType(level, resonance));
+
+        const services = MatrixRules.spriteServices(result.hits, result.resistHits);
+        if (services > 0) {
+            await this.createSprite(spriteType, level, services);
+        } else {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.SpriteNotCompiled'));
+        }
+    }
+
+    /** Register a sprite compiled by this technomancer, adding a task for each net hit.
+     *
+     * @PDF SR5#255 'Registering a Sprite'
+     * @param spriteId The sprite actor id.
+     */
+    async registerSprite(spriteId: string) {
+        const sprite = game.actors.get(spriteId) as SR5Actor;
+        const spriteData = sprite?.asSpriteData();
+        if (!spriteData || spriteData.data.technomancer !== this.id) return;
+
+        const {level, services} = spriteData.data;
+        const title = `${game.i18n.localize('SR5.Sprite.Register')} ${sprite.name}`;
+        const result = await this.rollResistedTest('registering', level, 'SR5.Sprite.Level', MatrixRules.spriteRegistrationDice(level), title);
+        if (!result) return;
+
+        const netHits = MatrixRules.spriteServices(result.hits, result.resistHits);
+        if (netHits > 0) {
+            await sprite.update({'data.services': services + netHits, 'data.registered': true});
+            ui.notifications?.info(game.i18n.format('SR5.Sprite.RegisteredServices', {name: sprite.name, services: services + netHits}));
+        } else {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.SpriteNotRegistered'));
+        }
+
+        const resonance = Number(this.getAttribute('resonance').value);
+        const fade = MatrixRules.spriteFade(result.resistHits);
+        await this.rollFade({}, fade, MatrixRules.spriteFadeDamageType(level, resonance));
+    }
+
+    /** Summon a spirit of a chosen type and Force, owing the magician a service for each net hit.
+     *
+     * @PDF SR5#300 'Summoning'
+     */
+    async summonSpirit() {
+        if (this.data.data.special !== 'magic') return;
+
+        const magic = Number(this.getAttribute('magic').value);
+        const dialog = new SummonSpiritDialog(magic);
+        const {spiritType, force} = await dialog.select() as SummonSpiritData;
+        if (dialog.canceled || !spiritType || !force) return;
+
+        const title = `${game.i18n.localize('SR5.Spirit.Summon')} ${game.i18n.localize(SR5.spiritTypes[spiritType])} (${force})`;
+        const foci = this.getFocusParts(['summoning', 'power']);
+        const result = await this.rollResistedTest('summoning', force, 'SR5.Force', force, title, foci);
+        if (!result) return;
+
+        // Drain is resisted before the spirit appears, as the magician might not be able to handle it.
+        const drain = MagicRules.summoningDrain(result.resistHits);
+        await this.rollDrain({}, drain, MagicRules.drainDamageType(force, magic));
+
+        const services = MagicRules.spiritServices(result.hits, result.resistHits);
+        if (services > 0) {
+            await this.createSpirit(spiritType, force, services);
+        } else {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.SpiritNotSummoned'));
+        }
+    }
+
+    /** Bind a spirit summoned by this magician, consuming reagents and adding a service for each net hit.
+     *
+     * @PDF SR5#300 'Binding'
+     * @param spiritId The spirit actor id.
+     */
+    async bindSpirit(spiritId: string) {
+        const spirit = game.actors.get(spiritId) as SR5Actor;
+        const spiritData = spirit?.asSpiritData();
+        if (!spiritData || spiritData.data.summoner !== this.id) return;
+
+        const bound = this.getSummonedSpirits().filter(spirit => spirit.asSpiritData()?.data.bound).length;
+        const charisma = Number(this.getAttribute('charisma').value);
+        if (!spiritData.data.bound && !MagicRules.canBindSpirit(bound, charisma)) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.TooManyBoundSpirits'));
+            return;
+        }
+
+        const {force, services} = spiritData.data;
+        const magicData = "magic" in this.data.data ? this.data.data.magic : undefined;
+        const reagents = MagicRules.bindingReagents(force);
+        if (!magicData || (magicData.reagents ?? 0) < reagents) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.NotEnoughReagents'));
+            return;
+        }
+
+        const dialog = new BindSpiritDialog(force, magicData.reagents);
+        await dialog.select();
+        if (dialog.canceled || dialog.selectedButton !== 'bind') return;
+
+        // Reagents are consumed by the attempt, whether the spirit is bound or not.
+        await this.update({'data.magic.reagents': magicData.reagents - reagents});
+
+        const title = `${game.i18n.localize('SR5.Spirit.Bind')} ${spirit.name}`;
+        const foci = this.getFocusParts(['binding', 'power']);
+        const result = await this.rollResistedTest('binding', force, 'SR5.Force', MagicRules.bindingDice(force), title, foci);
+        if (!result) return;
+
+        const netHits = MagicRules.spiritServices(result.hits, result.resistHits);
+        if (netHits > 0) {
+            await spirit.update({'data.services': services + netHits, 'data.bound': true});
+            ui.notifications?.info(game.i18n.format('SR5.Spirit.BoundServices', {name: spirit.name, services: services + netHits}));
+        } else {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.SpiritNotBound'));
+        }
+
+        const magic = Number(this.getAttribute('magic').value);
+        const drain = MagicRules.summoningDrain(result.resistHits);
+        await this.rollDrain({}, drain, MagicRules.drainDamageType(force, magic));
+    }
+
+    /** Spend one service of this spirit, dismissing it once all services are spent.
+     *
+     * @PDF SR5#300 'Spirit Services'
+     */
+    async useSpiritService() {
+        const spiritData = this.asSpiritData();
+        if (!spiritData) return;
+
+        const services = Math.max(0, spiritData.data.services - 1);
+        if (services > 0) {
+            await this.update({'data.services': services});
+            return;
+        }
+
+        ui.notifications?.info(game.i18n.format('SR5.Spirit.Dismissed', {name: this.name}));
+        await this.dismiss();
+    }
+
+    /** Remove a spirit or sprite that no longer owes anything. Players can't delete actors, so the GM does.
+     */
+    async dismiss() {
+        await SocketMessage.emitForGM(FLAGS.DismissSummonedActor, {actorId: this.id});
+    }
+
+    /** Delete this actor, including its tokens on all scenes.
+     */
+    async dismissAsGM() {
+        for (const scene of game.scenes) {
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            const tokenIds = scene.tokens.filter(token => token.data.actorId === this.id).map(token => token.id);
+            if (tokenIds.length === 0) continue;
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            await scene.deleteEmbeddedDocuments('Token', tokenIds);
+        }
+        await this.delete();
+    }
+
+    /** Is this actor perceiving or projecting onto the astral plane.
+     */
+    isAstral(): boolean {
+        return "magic" in this.data.data && MagicRules.isAstral(this.data.data.magic);
+    }
+
+    /** Switch astral perception on or off, while the body stays on the physical plane.
+     *
+     * @PDF SR5#313 'Astral Perception'
+     */
+    async toggleAstralPerception() {
+        if (this.data.data.special !== 'magic' || !("magic" in this.data.data)) return;
+
+        const {perceiving, projecting} = this.data.data.magic;
+        if (!this.canTakeAction('simple')) return;
+
+        await this.setAstralState(projecting, !perceiving);
+        await this.takeAction('simple');
+    }
+
+    /** Project onto the astral plane, leaving the body behind, or return to it.
+     *
+     * @PDF SR5#314 'Astral Projection'
+     */
+    async toggleAstralProjection() {
+        if (this.data.data.special !== 'magic' || !("magic" in this.data.data)) return;
+
+        const {perceiving, projecting} = this.data.data.magic;
+        if (!this.canTakeAction('simple')) return;
+
+        await this.setAstralState(!projecting, perceiving);
+        await this.takeAction('simple');
+    }
+
+    /** Is this actors astral form projected onto the astral plane.
+     */
+    isAstralProjecting(): boolean {
+        return "magic" in this.data.data && this.data.data.magic.projecting;
+    }
+
+    /** An astral form can't be seen from the physical plane. Only viewers on the astral plane, owners and GMs see it.
+     *
+     * @PDF SR5#314 'Astral Projection'
+     */
+    static onSightRefresh() {
+        if (!canvas.ready || game.user?.isGM) return;
+
+        const viewerIsAstral = Helpers.getSelectedActorsOrCharacter().some(actor => actor?.isAstral());
+        if (viewerIsAstral) return;
+
+        for (const token of canvas.tokens.placeables) {
+            const actor = token.actor as SR5Actor;
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            if (!actor || actor.isOwner || !actor.isAstralProjecting()) continue;
+            token.visible = false;
+        }
+    }
+
+    async setAstralState(projecting: boolean, perceiving: boolean) {
+        const astral = projecting || perceiving;
+        await this.update({
+            'data.magic.projecting': projecting,
+            'data.magic.perceiving': perceiving,
+            'data.initiative.perception': astral ? 'astral' : 'meatspace'
+        });
+
+        if (astral) await this.createAstralCombatAction();
+    }
+
+    /** Astral combat uses Astral Combat + Willpower against Intuition + Logic, dealing Charisma as damage.
+     * The action is created once an actor first enters the astral plane.
+     *
+     * @PDF SR5#315 'Astral Combat'
+     */
+    async createAstralCombatAction() {
+        if (this.items.find(item => item.isAstralCombat())) return;
+
+        // @ts-ignore // TODO: foundry-vtt-types has no Document Support yet.
+        await this.createEmbeddedDocuments('Item', [{
+            name: game.i18n.localize('SR5.Astral.Combat'),
+            type: 'action',
+            data: {
+                action: DefaultValues.actionRollData({
+                    type: 'complex',
+                    skill: 'astral_combat',
+                    attribute: 'willpower',
+                    limit: DefaultValues.limitData({attribute: 'astral'}),
+                    opposed: DefaultValues.opposedTestData({type: 'custom', attribute: 'intuition', attribute2: 'logic'}),
+                    damage: DefaultValues.damageData({type: {base: 'stun', value: 'stun'}, attribute: 'charisma'})
+                })
+            }
+        }]);
+    }
+
+    /** The initiation grade of an awakened actor.
+     */
+    getInitiationGrade(): number {
+        return "magic" in this.data.data ? this.data.data.magic.initiation ?? 0 : 0;
+    }
+
+    /** All metamagics learned through initiation.
+     */
+    getMetamagics(): MetamagicType[] {
+        return this.items
+            .map(item => item.asMetamagicData()?.data.type)
+            .filter((type): type is MetamagicType => !!type);
+    }
+
+    /** Karma needed to reach the next initiation grade.
+     *
+     * @PDF SR5#325 'Initiation'
+     */
+    getNextInitiationKarmaCost(): number {
+        return MagicRules.gradeKarmaCost(this.getInitiationGrade() + 1);
+    }
+
+    /** Karma needed to reach the next submersion grade.
+     *
+     * @PDF SR5#258 'Submersion'
+     */
+    getNextSubmersionKarmaCost(): number {
+        const submersion = this.isCharacter() ? (this.data.data as CharacterData).technomancer.submersion : 0;
+        return MagicRules.gradeKarmaCost(submersion + 1);
+    }
+
+    /** Is the aura of this actor masked through metamagic.
+     */
+    isAuraMasked(): boolean {
+        return MagicRules.isAuraMasked(this.getMetamagics());
+    }
+
+    /** Bonded foci that are currently active.
+     */
+    getActiveFoci(): SR5Item[] {
+        return this.items.filter(item => item.isEquipped() && !!item.asFocusData()?.data.bonded);
+    }
+
+    /** The total Force of all active foci, counting toward focus addiction.
+     *
+     * @PDF SR5#318 'Foci'
+     */
+    getActiveFociForce(): number {
+        return this.getActiveFoci().reduce((force, focus) => force + (focus.asFocusData()?.data.force ?? 0), 0);
+    }
+
+    /** Active foci are astrally active and make the aura of their owner visible.
+     */
+    isAuraVisible(): boolean {
+        return this.getActiveFoci().length > 0;
+    }
+
+    /** Each active focus of a matching type adds its Force as dice.
+     *
+     * @PDF SR5#318 'Foci'
+     * @param types The focus types matching the test.
+     * @param weaponId Weapon foci only add to attacks with the weapon they enchant.
+     */
+    getFocusParts(types: FocusType[], weaponId: string = ''): ModList<number> {
+        const parts = new PartsList<number>();
+        this.getActiveFoci().forEach(item => {
+            const focus = item.asFocusData()?.data;
+            if (!focus || !focus.type || !types.includes(focus.type)) return;
+            if (focus.type === 'weapon' && focus.weapon !== weaponId) return;
+            parts.addUniquePart(item.name as string, focus.force);
+        });
+        return parts.list;
+    }
+
+    /** Foci matching a spell or melee weapon test.
+     *
+     * @param item The item tested.
+     */
+    getItemFocusParts(item: SR5Item): ModList<number> {
+        if (item.isSpell()) return this.getFocusParts(['spellcasting', 'power']);
+        if (item.isMeleeWeapon()) return this.getFocusParts(['weapon'], item.id as string);
+        return [];
+    }
+
+    /** All spells and complex forms sustained by this actor.
+     */
+    getSustainedEffects(): SustainedEffect[] {
+        return "sustained" in this.data.data ? this.data.data.sustained : [];
+    }
+
+    /** Start sustaining a spell or complex form after casting it.
+     *
+     * @PDF SR5#281 'Sustaining Spells'
+     * @param item The spell or complex form cast.
+     * @param force The Force of the spell or level of the complex form cast.
+     */
+    async addSustainedEffect(item: SR5Item, force: number) {
+        if (!("sustained" in this.data.data)) return;
+
+        const effect: SustainedEffect = {
+            id: randomID(16),
+            itemId: item.id as string,
+            name: item.name as string,
+            type: item.isSpell() ? 'spell' : 'complex_form',
+            force,
+            spirit: '',
+            focus: false
+        };
+        await this.update({'data.sustained': [...this.getSustainedEffects(), effect]});
+    }
+
+    /** Stop sustaining a spell or complex form.
+     * @param id The sustained effect id.
+     */
+    async dropSustainedEffect(id: string) {
+        await this.update({'data.sustained': this.getSustainedEffects().filter(effect => effect.id !== id)});
+    }
+
+    /** Let a bound spirit of this magician sustain a spell instead, using one of its services.
+     *
+     * @PDF SR5#300 'Spell Binding'
+     * @param id The sustained effect id.
+     * @param spiritId The spirit actor id.
+     */
+    async transferSustainedEffect(id: string, spiritId: string) {
+        const effect = this.getSustainedEffects().find(effect => effect.id === id);
+        if (!effect || effect.type !== 'spell') return;
+
+        const spirit = game.actors.get(spiritId) as SR5Actor;
+        const spiritData = spirit?.asSpiritData();
+        if (!spiritData || spiritData.data.summoner !== this.id) return;
+
+        if (!spiritData.data.bound) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.SpiritMustBeBound'));
+            return;
+        }
+
+        await this.updateSustainedEffect(id, {spirit: spiritId});
+        await spirit.useSpiritService();
+    }
+
+    /** Toggle a sustaining focus sustaining a spell or complex form instead of its caster.
+     *
+     * @PDF SR5#319 'Sustaining Focus'
+     * @param id The sustained effect id.
+     */
+    async toggleSustainingFocus(id: string) {
+        const effect = this.getSustainedEffects().find(effect => effect.id === id);
+        if (!effect) return;
+
+        if (!effect.focus && !this.hasFreeSustainingFocus(effect.force)) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.NoSustainingFocus'));
+            return;
+        }
+
+        await this.updateSustainedEffect(id, {focus: !effect.focus});
+    }
+
+    /** Each active sustaining focus sustains one effect with a Force up to its own.
+     * @param force The Force of the effect to sustain.
+     */
+    hasFreeSustainingFocus(force: number): boolean {
+        const foci = this.getActiveFoci().filter(item => {
+            const focus = item.asFocusData()?.data;
+            return focus?.type === 'sustaining' && focus.force >= force;
+        });
+        const sustainedByFoci = this.getSustainedEffects().filter(effect => effect.focus).length;
+        return foci.length > sustainedByFoci;
+    }
+
+    async updateSustainedEffect(id: string, data: Partial<SustainedEffect>) {
+        const sustained = this.getSustainedEffects().map(effect => effect.id === id ? {...effect, ...data} : effect);
+        await this.update({'data.sustained': sustained});
+    }
+
+    /** All spirit actors summoned by this magician.
+     */
+    getSummonedSpirits(): SR5Actor[] {
+        return game.actors.filter(actor => (actor as SR5Actor).asSpiritData()?.data.summoner === this.id) as SR5Actor[];
+    }
+
+    /** The magician that summoned this spirit.
+     */
+    getSpiritSummoner(): SR5Actor | undefined {
+        const spirit = this.asSpiritData();
+        if (!spirit || !spirit.data.summoner) return;
+        return game.actors?.get(spirit.data.summoner) as SR5Actor;
+    }
+
+    async createSpirit(spiritType: SpiritType, force: number, services: number) {
+        const name = `${game.i18n.localize(SR5.spiritTypes[spiritType])} (${this.name})`;
+
+        await this.createSummonedActor({
+            name,
+            type: 'spirit',
+            folder: this.data.folder,
+            permission: duplicate(this.data.permission),
+            data: {spiritType, force, services, bound: false, summoner: this.id},
+            token: {name, actorLink: true}
+        });
+    }
+
+    /** Roll a skill of this actor against a spirit or sprite resisting it.
+     *
+     * @param skillId The skill to roll.
+     * @param limit The force or level of the resisting entity, limiting this actors hits.
+     * @param limitLabel The label of the limit.
+     * @param resistDice The dice pool the entity resists with.
+     * @param title The roll title.
+     * @param partsProps Additional dice pool parts, like foci.
+     */
+    async rollResistedTest(skillId: string, limit: number, limitLabel: string, resistDice: number, title: string, partsProps: ModList<number> = []): Promise<{hits: number, resistHits: number} | undefined> {
+        const parts = new PartsList<number>(partsProps);
+        parts.addUniquePart(this.getSkillLabel(skillId), this.getPool(skillId));
+
+        const limitField = {label: limitLabel, base: limit, value: limit, mod: [], hidden: false};
+        const roll = await ShadowrunRoller.advancedRoll({parts: parts.list, actor: this, title, limit: limitField});
+        if (!roll) return;
+
+        const resistRoll = await ShadowrunRoller.basicRoll({
+            parts: [{name: limitLabel, value: resistDice}],
+            title: `${title} - ${game.i18n.localize('SR5.Resist')}`
+        });
+        if (!resistRoll) return;
+
+        return {hits: roll.hits, resistHits: resistRoll.hits};
+    }
+
+    /** All sprite actors compiled by this technomancer.
+     */
+    getCompiledSprites(): SR5Actor[] {
+        return game.actors.filter(actor => (actor as SR5Actor).asSpriteData()?.data.technomancer === this.id) as SR5Actor[];
+    }
+
+    /** The technomancer that compiled this sprite.
+     */
+    getSpriteTechnomancer(): SR5Actor | undefined {
+        const sprite = this.asSpriteData();
+        if (!sprite || !sprite.data.technomancer) return;
+        return game.actors?.get(sprite.data.technomancer) as SR5Actor;
+    }
+
+    async createSprite(spriteType: SpriteType, level: number, services: number) {
+        const name = `${game.i18n.localize(SR5.spriteTypes[spriteType])} (${this.name})`;
+
+        await this.createSummonedActor({
+            name,
+            type: 'sprite',
+            folder: this.data.folder,
+            permission: duplicate(this.data.permission),
+            data: {spriteType, level, services, registered: false, technomancer: this.id},
+            token: {name, actorLink: true}
+        });
+    }
+
+    /** Create a spirit or sprite actor with a token next to this actor. Players can't create actors, so the GM does.
+     * @param data The actor data to create.
+     */
+    async createSummonedActor(data: object) {
+        const sceneId = canvas.ready ? canvas.scene?.id : undefined;
+        await SocketMessage.emitForGM(FLAGS.CreateSummonedActor, {summonerId: this.id, sceneId, data});
+    }
+
+    /** Place a token of a summoned spirit or compiled sprite next to this actors token, should there be one on the scene.
+     * @param actor The actor to place a token for.
+     * @param sceneId The scene to place the token on.
+     */
+    async placeTokenNextToThis(actor: SR5Actor, sceneId: string | undefined) {
+        const scene = sceneId ? game.scenes.get(sceneId) : undefined;
+        if (!scene) return;
+
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        const token = scene.tokens.find(token => token.data.actorId === this.id);
+        if (!token) return;
+
+        const tokenData = {...duplicate(actor.data.token), x: token.data.x + Number(scene.data.grid), y: token.data.y, actorId: actor.id};
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        await scene.createEmbeddedDocuments('Token', [tokenData]);
+    }
+
     asCritterData(): CritterActorData | undefined {
         if (this.isCritter()){
             return this.data as CritterActorData;
@@ -1688,6 +3000,55 @@ export class SR5Actor extends Actor<ShadowrunActorData, SR5Item> {
         return driver;
     }
 
+    /** Find the best matching autosoft rating of this drone.
+     *
+     * Autosofts can run on the drone itself or be shared by the drivers rigger command console.
+     *
+     * @param type The autosoft type needed.
+     * @param target The weapon or vehicle model name the autosoft is used for.
+     */
+    getAutosoftRating(type: AutosoftTypes, target?: string): number | undefined {
+        if (!this.isVehicle()) return;
+
+        const autosofts = this.items.filter(item => item.isAutosoft());
+        const driver = this.getVehicleDriver();
+        if (driver?.hasEquippedRCC()) {
+            autosofts.push(...driver.items.filter(item => item.isAutosoft()));
+        }
+
+        const ratings = autosofts
+            .filter(item => VehicleRules.autosoftMatches((item.asProgramData() as ProgramItemData).data.autosoft, type, target))
+            .map(item => item.getRating());
+        if (ratings.length === 0) return;
+
+        return Math.max(...ratings);
+    }
+
+    /** Autosofts of a drone replace its skills, which are used as a fallback for drones without autosofts.
+     *
+     * @param type The autosoft type needed.
+     * @param skill The skill replaced by the autosoft.
+     * @param target The weapon or vehicle model name the autosoft is used for.
+     */
+    getAutosoftOrSkillValue(type: AutosoftTypes, skill: SkillField | undefined, target?: string): number | undefined {
+        const rating = this.getAutosoftRating(type, target);
+        if (rating !== undefined) return rating;
+        if (skill) return Helpers.calcTotal(skill);
+    }
+
+    hasEquippedRCC(): boolean {
+        return this.items.filter(item => item.isRCC() && item.isEquipped()).length > 0;
+    }
+
+    /** Collect all vehicles this actor has been added to as a driver.
+     */
+    getDrivenVehicles(): SR5Actor[] {
+        return game.actors.filter(actor => {
+            const vehicleData = (actor as SR5Actor).asVehicleData();
+            return !!vehicleData && vehicleData.data.driver === this.id;
+        }) as SR5Actor[];
+    }
+
     /** Check if this actor is of one or multiple given actor types
      *
      * @param types A list of actor types to check.
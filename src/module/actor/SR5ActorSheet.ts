@@ -6,13 +6,22 @@ import {LanguageSkillEditSheet} from '../apps/skills/LanguageSkillEditSheet';
 import {SR5Actor} from './SR5Actor';
 import {SR5} from '../config';
 import {SR5Item} from "../item/SR5Item";
+import {VehicleRules} from "../rules/VehicleRules";
+import {FLAGS, SYSTEM_NAME} from "../constants";
 import SR5SheetFilters = Shadowrun.SR5SheetFilters;
 import Skills = Shadowrun.Skills;
 import MatrixAttribute = Shadowrun.MatrixAttribute;
 import SkillField = Shadowrun.SkillField;
-import DeviceData = Shadowrun.DeviceData;
 import SR5ActorSheetData = Shadowrun.SR5ActorSheetData;
 import Attributes = Shadowrun.Attributes;
+import SR5DrivenVehicleSheetData = Shadowrun.SR5DrivenVehicleSheetData;
+import ICType = Shadowrun.ICType;
+import SR5CompiledSpriteSheetData = Shadowrun.SR5CompiledSpriteSheetData;
+import SR5SummonedSpiritSheetData = Shadowrun.SR5SummonedSpiritSheetData;
+import SR5SustainedEffectSheetData = Shadowrun.SR5SustainedEffectSheetData;
+import SustainedEffect = Shadowrun.SustainedEffect;
+import SR5ActiveFociSheetData = Shadowrun.SR5ActiveFociSheetData;
+import {MagicRules} from "../rules/MagicRules";
 
 // Use SR5ActorSheet._showSkillEditForm to only ever render one SkillEditSheet instance.
 // Should multiple instances be open, Foundry will cause cross talk between skills and actors,
@@ -99,6 +108,11 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         this._prepareActorTypeFields(data);
         this._prepareCharacterFields(data);
         this._prepareVehicleFields(data);
+        this._prepareICFields(data);
+        this._prepareSpriteFields(data);
+        this._prepareSpiritFields(data);
+        this._prepareMarks(data);
+        this._prepareProgramSlots(data);
 
         return data;
     }
@@ -140,6 +154,82 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         data.awakened = data.data.special === 'magic';
         data.emerged = data.data.special === 'resonance';
         data.woundTolerance = 3 + (Number(mods['wound_tolerance']) || 0);
+        data.vehicles = this.actor.getDrivenVehicles().map(vehicle => this._prepareDrivenVehicle(vehicle));
+        if (data.emerged) data.sprites = this.actor.getCompiledSprites().map(sprite => this._prepareCompiledSprite(sprite));
+        if (data.awakened) data.spirits = this.actor.getSummonedSpirits().map(spirit => this._prepareSummonedSpirit(spirit));
+        if (data.awakened) data.initiationKarmaCost = this.actor.getNextInitiationKarmaCost();
+        if (data.emerged) data.submersionKarmaCost = this.actor.getNextSubmersionKarmaCost();
+        data.auraMasked = this.actor.isAuraMasked();
+        data.auraVisible = this.actor.isAuraVisible();
+        if (data.awakened) data.activeFoci = this._prepareActiveFoci();
+        data.sustained = this.actor.getSustainedEffects().map(effect => this._prepareSustainedEffect(effect));
+    }
+
+    _prepareActiveFoci(): SR5ActiveFociSheetData {
+        const magic = Number(this.actor.getAttribute('magic').value);
+        const force = this.actor.getActiveFociForce();
+        return {force, limit: MagicRules.focusForceLimit(magic), addiction: MagicRules.risksFocusAddiction(force, magic)};
+    }
+
+    _canActivateFocus(item: SR5Item): boolean {
+        const focus = item.asFocusData()?.data;
+        if (!focus?.bonded) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.FocusNotBonded'));
+            return false;
+        }
+
+        const magic = Number(this.actor.getAttribute('magic').value);
+        if (MagicRules.risksFocusAddiction(this.actor.getActiveFociForce() + focus.force, magic)) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.FocusAddiction'));
+        }
+        return true;
+    }
+
+    _prepareSustainedEffect(effect: SustainedEffect): SR5SustainedEffectSheetData {
+        const spirit = effect.spirit ? game.actors.get(effect.spirit) : undefined;
+        return {...effect, spiritName: spirit ? spirit.name : null};
+    }
+
+    _prepareSummonedSpirit(spirit: SR5Actor): SR5SummonedSpiritSheetData {
+        const {id, name, img} = spirit;
+        const {force, services, bound} = spirit.asSpiritData()?.data ?? {force: 0, services: 0, bound: false};
+        return {id, name, img, force, services, bound};
+    }
+
+    _prepareCompiledSprite(sprite: SR5Actor): SR5CompiledSpriteSheetData {
+        const {id, name, img} = sprite;
+        const {level, services, registered} = sprite.asSpriteData()?.data ?? {level: 0, services: 0, registered: false};
+        return {id, name, img, level, services, registered};
+    }
+
+    /**
+     * Riggers jumped into a drone can fire its weapons from their own sheet.
+     * @param vehicle A vehicle driven by this sheets actor.
+     */
+    _prepareDrivenVehicle(vehicle: SR5Actor): SR5DrivenVehicleSheetData {
+        const {id, name, img} = vehicle;
+        const vehicleData = vehicle.asVehicleData();
+        const sharedGunnery = game.settings.get(SYSTEM_NAME, FLAGS.SharedRiggerGunnery);
+        const canFireThrough = sharedGunnery && !!vehicleData && VehicleRules.canRiggerFireThrough(vehicleData.data.controlMode);
+
+        const weapons = canFireThrough ?
+            vehicle.items.filter(item => item.type === 'weapon').map(({id, name, img}) => ({id, name, img})) :
+            [];
+
+        return {id, name, img, weapons};
+    }
+
+    _prepareProgramSlots(data: SR5ActorSheetData) {
+        const max = this.actor.getProgramSlots();
+        if (max === undefined) return;
+        data.programSlots = {used: this.actor.getRunningPrograms().length, max};
+    }
+
+    _prepareMarks(data: SR5ActorSheetData) {
+        data.marks = this.actor.getMarks();
+        data.marksOnThis = this.actor.getMarksOnThis().map(({actor, mark}) => {
+            return {...mark, actorId: actor.id, actorName: actor.name};
+        });
     }
 
     _prepareVehicleFields(data: SR5ActorSheetData) {
@@ -152,6 +242,30 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         };
     }
 
+    _prepareICFields(data: SR5ActorSheetData) {
+        const host = this.actor.getICHost();
+        if (!host) return;
+
+        const {id, name, img} = host;
+        data.host = {id, name, img};
+    }
+
+    _prepareSpriteFields(data: SR5ActorSheetData) {
+        const technomancer = this.actor.getSpriteTechnomancer();
+        if (!technomancer) return;
+
+        const {id, name, img} = technomancer;
+        data.technomancer = {id, name, img};
+    }
+
+    _prepareSpiritFields(data: SR5ActorSheetData) {
+        const summoner = this.actor.getSpiritSummoner();
+        if (!summoner) return;
+
+        const {id, name, img} = summoner;
+        data.summoner = {id, name, img};
+    }
+
     _prepareActorTypeFields(data: SR5ActorSheetData) {
         data.isCharacter = this.actor.isCharacter();
         data.isSpirit = this.actor.isSpirit();
@@ -330,6 +444,9 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
             programs,
             critter_powers,
             sprite_powers,
+            echoes,
+            metamagics,
+            foci,
         ] = data.items.reduce(
             (arr, item) => {
                 // Duplicate to avoid later updates propagating changed item data.
@@ -355,10 +472,13 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
                 else if (item.type === 'program') arr[9].push(item);
                 else if (item.type === 'critter_power') arr[10].push(item);
                 else if (item.type === 'sprite_power') arr[11].push(item);
+                else if (item.type === 'echo') arr[12].push(item);
+                else if (item.type === 'metamagic') arr[13].push(item);
+                else if (item.type === 'focus') arr[14].push(item);
                 else if (Object.keys(inventory).includes(item.type)) arr[0].push(item);
                 return arr;
             },
-            [[], [], [], [], [], [], [], [], [], [], [], []],
+            [[], [], [], [], [], [], [], [], [], [], [], [], [], [], []],
         );
 
         const sortByName = (i1, i2) => {
@@ -386,6 +506,9 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         programs.sort(sortByEquipped);
         critter_powers.sort(sortByName);
         sprite_powers.sort(sortByName);
+        echoes.sort(sortByName);
+        metamagics.sort(sortByName);
+        foci.sort(sortByEquipped);
 
         items.forEach((item) => {
             inventory[item.type].items.push(item);
@@ -404,6 +527,9 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         data.programs = programs;
         data.critter_powers = critter_powers;
         data.sprite_powers = sprite_powers;
+        data.echoes = echoes;
+        data.metamagics = metamagics;
+        data.foci = foci;
 
         qualities.sort((a, b) => {
             if (a.data.type === 'positive' && b.data.type === 'negative') return -1;
@@ -465,6 +591,9 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         html.find('.item-create').click(this._onItemCreate.bind(this));
         html.find('.reload-ammo').click(this._onReloadAmmo.bind(this));
         html.find('.matrix-att-selector').change(this._onMatrixAttributeSelected.bind(this));
+        html.find('.device-configuration-load').click(this._onLoadDeviceConfiguration.bind(this));
+        html.find('.device-configuration-save').click(this._onSaveDeviceConfiguration.bind(this));
+        html.find('.device-configuration-delete').click(this._onDeleteDeviceConfiguration.bind(this));
 
         html.find('.import-character').click(this._onShowImportCharacter.bind(this));
         html.find('.show-hidden-skills').click(this._onShowHiddenSkills.bind(this));
@@ -524,6 +653,26 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
        this._addDragSupportToListItemTemplatePartial(html);
 
         html.find('.driver-remove').click(this.handleRemoveVehicleDriver.bind(this));
+        html.find('.vehicle-weapon-roll').click(this._onRollVehicleWeapon.bind(this));
+
+        html.find('.mark-delete').click(this._onDeleteMark.bind(this));
+        html.find('.mark-remove').click(this._onRemoveMarkOnThis.bind(this));
+        html.find('.matrix-reboot').click(this._onRebootPersona.bind(this));
+        html.find('.matrix-jack-out').click(this._onJackOut.bind(this));
+        html.find('.sprite-compile').click(this._onCompileSprite.bind(this));
+        html.find('.sprite-register').click(this._onRegisterSprite.bind(this));
+        html.find('.spirit-summon').click(this._onSummonSpirit.bind(this));
+        html.find('.spirit-bind').click(this._onBindSpirit.bind(this));
+        html.find('.spirit-use-service').click(this._onUseSpiritService.bind(this));
+        html.find('.sustained-drop').click(this._onDropSustainedEffect.bind(this));
+        html.find('.sustained-focus').click(this._onToggleSustainingFocus.bind(this));
+        html.find('.sustained-transfer').on('change', this._onTransferSustainedEffect.bind(this));
+        html.find('.astral-perception').click(this._onToggleAstralPerception.bind(this));
+        html.find('.astral-projection').click(this._onToggleAstralProjection.bind(this));
+
+        html.find('.host-ic-add').click(this._onAddHostIC.bind(this));
+        html.find('.host-ic-delete').click(this._onRemoveHostIC.bind(this));
+        html.find('.host-ic-launch').click(this._onLaunchHostIC.bind(this));
     }
 
     /**
@@ -763,37 +912,40 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
     }
 
     async _onMatrixAttributeSelected(event) {
-        if (!("matrix" in this.actor.data.data)) return;
-
-        let iid = this.actor.data.data.matrix.device;
-        let item = this.actor.items.get(iid);
-        if (!item) {
-            console.error('could not find item');
-            return;
-        }
         // grab matrix attribute (sleaze, attack, etc.)
-        let att = event.currentTarget.dataset.att;
+        const att = event.currentTarget.dataset.att;
         // grab device attribute (att1, att2, ...)
-        let deviceAtt = event.currentTarget.value;
+        const deviceAtt = event.currentTarget.value;
 
-        // get current matrix attribute on the device
-        const deviceData = item.data.data as DeviceData;
-        let oldVal = deviceData.atts[deviceAtt].att;
-        let data = {
-            _id: iid,
-        };
+        await this.actor.swapMatrixAttributes(att, deviceAtt);
+        // Reset the selection, should the reconfiguration have been blocked.
+        this.render();
+    }
 
-        // go through atts on device, setup matrix attributes on it
-        for (let i = 1; i <= 4; i++) {
-            let tmp = `att${i}`;
-            let key = `data.atts.att${i}.att`;
-            if (tmp === deviceAtt) {
-                data[key] = att;
-            } else if (deviceData.atts[`att${i}`].att === att) {
-                data[key] = oldVal;
-            }
-        }
-        await this.actor.updateOwnedItem(data);
+    async _onLoadDeviceConfiguration(event) {
+        event.preventDefault();
+        const index = Number($(event.currentTarget).closest('.device-configurations').find('.device-configuration-select').val());
+        if (isNaN(index)) return;
+        await this.actor.loadDeviceConfiguration(index);
+    }
+
+    async _onSaveDeviceConfiguration(event) {
+        event.preventDefault();
+        const device = this.actor.getMatrixDevice();
+        if (!device) return;
+
+        const name = String($(event.currentTarget).closest('.device-configurations').find('.device-configuration-name').val() || '');
+        await device.saveDeviceConfiguration(name || game.i18n.localize('SR5.DeviceConfiguration.New'));
+    }
+
+    async _onDeleteDeviceConfiguration(event) {
+        event.preventDefault();
+        const device = this.actor.getMatrixDevice();
+        if (!device) return;
+
+        const index = Number($(event.currentTarget).closest('.device-configurations').find('.device-configuration-select').val());
+        if (isNaN(index)) return;
+        await device.deleteDeviceConfiguration(index);
     }
 
     _onItemCreate(event) {
@@ -903,6 +1055,15 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
                 }
 
             } else {
+                // Only bonded foci can be activated and too many active foci risk focus addiction.
+                if (item.isFocus() && !item.isEquipped() && !this._canActivateFocus(item)) return;
+
+                // Only load programs into free program slots of the matrix device.
+                if (item.isProgram() && !item.isAutosoft() && !item.isEquipped() && !this.actor.canLoadProgram()) {
+                    ui.notifications?.warn(game.i18n.localize('SR5.Warnings.NoProgramSlotsLeft'));
+                    return;
+                }
+
                 // Toggle equip status.
                 newItems.push({
                     '_id': iid,
@@ -985,6 +1146,124 @@ export class SR5ActorSheet extends ActorSheet<SR5ActorSheetData, SR5Actor> {
         }
     }
 
+    /**
+     * Fire a weapon of a drone the actor is jumped into.
+     * @param event
+     */
+    async _onRollVehicleWeapon(event) {
+        event.preventDefault();
+        const {vehicleId, itemId} = event.currentTarget.dataset;
+        const vehicle = game.actors.get(vehicleId) as SR5Actor;
+        if (!vehicle) return;
+        const item = vehicle.items.get(itemId);
+        if (!item) return;
+        await item.castAction(event);
+    }
+
+    async _onDeleteMark(event) {
+        event.preventDefault();
+        const {uuid} = event.currentTarget.dataset;
+        await this.actor.clearMarks(uuid);
+    }
+
+    async _onRemoveMarkOnThis(event) {
+        event.preventDefault();
+        const {actorId, uuid} = event.currentTarget.dataset;
+        await this.actor.removeMarksOnThis(actorId, uuid);
+        this.render();
+    }
+
+    async _onRebootPersona(event) {
+        event.preventDefault();
+        await this.actor.rebootPersona();
+        this.render();
+    }
+
+    async _onJackOut(event) {
+        event.preventDefault();
+        await this.actor.jackOut();
+    }
+
+    async _onCompileSprite(event) {
+        event.preventDefault();
+        await this.actor.compileSprite();
+        this.render();
+    }
+
+    async _onRegisterSprite(event) {
+        event.preventDefault();
+        const {actorId} = event.currentTarget.dataset;
+        await this.actor.registerSprite(actorId);
+        this.render();
+    }
+
+    async _onSummonSpirit(event) {
+        event.preventDefault();
+        await this.actor.summonSpirit();
+        this.render();
+    }
+
+    async _onBindSpirit(event) {
+        event.preventDefault();
+        const {actorId} = event.currentTarget.dataset;
+        await this.actor.bindSpirit(actorId);
+        this.render();
+    }
+
+    async _onUseSpiritService(event) {
+        event.preventDefault();
+        await this.actor.useSpiritService();
+    }
+
+    async _onDropSustainedEffect(event) {
+        event.preventDefault();
+        const {effectId} = event.currentTarget.closest('.list-item').dataset;
+        await this.actor.dropSustainedEffect(effectId);
+    }
+
+    async _onToggleSustainingFocus(event) {
+        event.preventDefault();
+        const {effectId} = event.currentTarget.closest('.list-item').dataset;
+        await this.actor.toggleSustainingFocus(effectId);
+    }
+
+    async _onTransferSustainedEffect(event) {
+        event.preventDefault();
+        const {effectId} = event.currentTarget.closest('.list-item').dataset;
+        const spiritId = event.currentTarget.value;
+        if (!spiritId) return;
+        await this.actor.transferSustainedEffect(effectId, spiritId);
+    }
+
+    async _onToggleAstralPerception(event) {
+        event.preventDefault();
+        await this.actor.toggleAstralPerception();
+    }
+
+    async _onToggleAstralProjection(event) {
+        event.preventDefault();
+        await this.actor.toggleAstralProjection();
+    }
+
+    async _onAddHostIC(event) {
+        event.preventDefault();
+        const icType = $(event.currentTarget).closest('.list-item').find('.host-ic-select').val() as ICType;
+        if (!icType) return;
+        await this.actor.addHostIC(icType);
+    }
+
+    async _onRemoveHostIC(event) {
+        event.preventDefault();
+        const index = Number(event.currentTarget.dataset.index);
+        await this.actor.removeHostIC(index);
+    }
+
+    async _onLaunchHostIC(event) {
+        event.preventDefault();
+        const {icType} = event.currentTarget.dataset;
+        await this.actor.launchIC(icType);
+    }
+
     async _onRollItem(event) {
         event.preventDefault();
         const iid = Helpers.listItemId(event);
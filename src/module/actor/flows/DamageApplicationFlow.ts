@@ -1,6 +1,8 @@
 import {DamageApplicationDialog} from "../../apps/dialogs/DamageApplicationDialog";
 import {SR5Actor} from "../SR5Actor";
+import {MatrixRules} from "../../rules/MatrixRules";
 import DamageData = Shadowrun.DamageData;
+import MatrixAttackEffect = Shadowrun.MatrixAttackEffect;
 
 export class DamageApplicationFlow {
 
@@ -40,7 +42,9 @@ export class DamageApplicationFlow {
         // Apply damage and resulting overflow to the according track.
         // The amount and type damage can value in the process.
         if (damage.type.value === 'matrix') {
+            const matrixDamage = damage;
             damage = await actor.addMatrixDamage(damage);
+            await this.applyMatrixDamageEffects(actor, matrixDamage);
         }
 
         if (damage.type.value === 'stun') {
@@ -57,6 +61,40 @@ export class DamageApplicationFlow {
         // TODO: Handle changes in actor status (death and such)
     }
 
+    /** Apply biofeedback, link-lock and dumpshock following matrix damage.
+     *
+     * @param actor The actor that took the matrix damage.
+     * @param damage The matrix damage taken.
+     */
+    async applyMatrixDamageEffects(actor: SR5Actor, damage: DamageData) {
+        const effect = this.getMatrixAttackEffect(damage);
+
+        if (effect.biofeedback && actor.isInVR()) {
+            const type = MatrixRules.biofeedbackDamageType(effect.biofeedback, actor.isUsingHotSim());
+            const biofeedback = duplicate(damage) as DamageData;
+            biofeedback.type.base = type;
+            biofeedback.type.value = type;
+            await this.applyDamageToActor(actor, biofeedback);
+        }
+
+        if (effect.link_lock && !actor.isLinkLocked()) {
+            await actor.setLinkLocked(true, damage.source?.actorId);
+        }
+
+        if (actor.isMatrixDeviceBricked()) {
+            await actor.dumpshock();
+        }
+    }
+
+    /** Get the follow up effects of the attacking actor causing the matrix damage.
+     */
+    getMatrixAttackEffect(damage: DamageData): MatrixAttackEffect {
+        if (!damage.source) return {};
+        const attacker = game.actors.get(damage.source.actorId) as SR5Actor;
+        if (!attacker) return {};
+        return attacker.getMatrixAttackEffect();
+    }
+
     private changeStunToPhysicalForGrunts(actor : SR5Actor, damage: DamageData): DamageData {
         const updatedDamage = duplicate(damage) as DamageData;
         if (!actor.isGrunt()) {
@@ -12,6 +12,7 @@ import {PartsList} from "../../parts/PartsList";
 import {DefaultValues} from "../../data/DataDefaults";
 import { ShadowrunActorDialogs } from '../../apps/dialogs/ShadowrunActorDialogs';
 import {SR5Item} from '../../item/SR5Item';
+import {DamageApplicationFlow} from "./DamageApplicationFlow";
 
 export class SoakFlow {
 
@@ -62,6 +63,11 @@ export class SoakFlow {
         }
         await createRollChatMessage(options);
 
+        // Offer to apply the remaining damage, to avoid users having to retype it.
+        if (modified.value > 0) {
+            await new DamageApplicationFlow().runApplyDamage([actor], modified);
+        }
+
         return roll;
     }
 
@@ -8,7 +8,9 @@ import { ConditionMonitorsPrep } from './functions/ConditionMonitorsPrep';
 import { MovementPrep } from './functions/MovementPrep';
 import { WoundsPrep } from './functions/WoundsPrep';
 import { AttributesPrep } from './functions/AttributesPrep';
+import { MagicPrep } from './functions/MagicPrep';
 import { NPCPrep } from './functions/NPCPrep';
+import { TechnomancerPrep } from './functions/TechnomancerPrep';
 import CharacterData = Shadowrun.CharacterData;
 import {SR5ItemDataWrapper} from "../../data/SR5ItemDataWrapper";
 
@@ -18,17 +20,23 @@ export function CharacterDataPrepare(data: CharacterData, items: SR5ItemDataWrap
 
     ItemPrep.prepareArmor(data, items);
     ItemPrep.prepareBodyware(data, items);
+    TechnomancerPrep.prepareResonanceLoss(data);
+    MagicPrep.prepareMagicLoss(data);
 
     SkillsPrep.prepareSkills(data);
     AttributesPrep.prepareAttributes(data);
+    TechnomancerPrep.prepareMaxResonance(data);
+    MagicPrep.prepareMaxMagic(data);
 
     // NPCPrep is reliant to be called after AttributesPrep.
     NPCPrep.prepareNPCData(data);
 
     LimitsPrep.prepareLimitBaseFromAttributes(data);
     LimitsPrep.prepareLimits(data);
+    MagicPrep.prepareAstralLimit(data);
 
     MatrixPrep.prepareMatrix(data, items);
+    TechnomancerPrep.prepareEchoes(data, items);
     MatrixPrep.prepareMatrixToLimitsAndAttributes(data);
 
     if (data.is_npc && data.npc.is_grunt) {
@@ -40,9 +48,11 @@ export function CharacterDataPrepare(data: CharacterData, items: SR5ItemDataWrap
 
     MovementPrep.prepareMovement(data);
     WoundsPrep.prepareWounds(data);
+    MagicPrep.prepareAstralAttributes(data);
 
     InitiativePrep.prepareMeatspaceInit(data);
     InitiativePrep.prepareAstralInit(data);
     InitiativePrep.prepareMatrixInit(data);
+    MagicPrep.prepareAstralInitiative(data);
     InitiativePrep.prepareCurrentInitiative(data);
 }
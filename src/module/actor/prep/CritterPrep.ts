@@ -8,6 +8,7 @@ import { ConditionMonitorsPrep } from './functions/ConditionMonitorsPrep';
 import { MovementPrep } from './functions/MovementPrep';
 import { WoundsPrep } from './functions/WoundsPrep';
 import { AttributesPrep } from './functions/AttributesPrep';
+import { MagicPrep } from './functions/MagicPrep';
 import CritterData = Shadowrun.CritterData;
 import {SR5ItemDataWrapper} from "../../data/SR5ItemDataWrapper";
 
@@ -22,6 +23,7 @@ export function CritterDataPrepare(data: CritterData, items: SR5ItemDataWrapper[
     AttributesPrep.prepareAttributes(data);
     LimitsPrep.prepareLimitBaseFromAttributes(data);
     LimitsPrep.prepareLimits(data);
+    MagicPrep.prepareAstralLimit(data);
 
     MatrixPrep.prepareMatrix(data, items);
     MatrixPrep.prepareMatrixToLimitsAndAttributes(data);
@@ -31,9 +33,11 @@ export function CritterDataPrepare(data: CritterData, items: SR5ItemDataWrapper[
 
     MovementPrep.prepareMovement(data);
     WoundsPrep.prepareWounds(data);
+    MagicPrep.prepareAstralAttributes(data);
 
     InitiativePrep.prepareMeatspaceInit(data);
     InitiativePrep.prepareAstralInit(data);
     InitiativePrep.prepareMatrixInit(data);
+    MagicPrep.prepareAstralInitiative(data);
     InitiativePrep.prepareCurrentInitiative(data);
 }
\ No newline at end of file
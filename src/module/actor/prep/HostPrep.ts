@@ -0,0 +1,136 @@
+import { SkillsPrep } from './functions/SkillsPrep';
+import { ModifiersPrep } from './functions/ModifiersPrep';
+import { InitiativePrep } from './functions/InitiativePrep';
+import { AttributesPrep } from './functions/AttributesPrep';
+import { LimitsPrep } from './functions/LimitsPrep';
+import { MatrixPrep } from './functions/MatrixPrep';
+import { Helpers } from '../../helpers';
+import { PartsList } from '../../parts/PartsList';
+import { MatrixRules } from '../../rules/MatrixRules';
+import { SR } from '../../constants';
+import HostData = Shadowrun.HostData;
+import ICData = Shadowrun.ICData;
+import HostAttributeOffsets = Shadowrun.HostAttributeOffsets;
+import {SR5ItemDataWrapper} from "../../data/SR5ItemDataWrapper";
+
+
+export function HostDataPrepare(data: HostData, items: SR5ItemDataWrapper[]) {
+    ModifiersPrep.prepareModifiers(data);
+    ModifiersPrep.clearAttributeMods(data);
+
+    HostPrep.prepareHostData(data);
+
+    SkillsPrep.prepareSkills(data);
+    AttributesPrep.prepareAttributes(data);
+    LimitsPrep.prepareLimits(data);
+
+    MatrixPrep.prepareMatrixToLimitsAndAttributes(data);
+
+    InitiativePrep.prepareCurrentInitiative(data);
+}
+
+/**
+ * IC derive their values from the host that launched them. Without the host available, the rating stored at launch is used.
+ *
+ * @param data The IC data.
+ * @param items The IC items.
+ * @param host The host data of the launching host, if available.
+ */
+export function ICDataPrepare(data: ICData, items: SR5ItemDataWrapper[], host?: HostData) {
+    ModifiersPrep.prepareModifiers(data);
+    ModifiersPrep.clearAttributeMods(data);
+
+    HostPrep.prepareICData(data, host);
+
+    SkillsPrep.prepareSkills(data);
+    AttributesPrep.prepareAttributes(data);
+    LimitsPrep.prepareLimits(data);
+
+    MatrixPrep.prepareMatrixToLimitsAndAttributes(data);
+
+    InitiativePrep.prepareCurrentInitiative(data);
+}
+
+/**
+ * Prepare Host and IC Types of Actor
+ */
+export class HostPrep {
+    /**
+     * Prepares basic Host specific data
+     * - matrix attribute values from rating and attribute offsets
+     * - device rating
+     * - matrix initiative
+     * @param data
+     */
+    static prepareHostData(data: HostData) {
+        const { rating, asdf } = data;
+
+        HostPrep.prepareMatrixAttributes(data, rating, asdf);
+        HostPrep.prepareMatrixInitiative(data, rating);
+
+        // hosts can't be damaged
+        data.matrix.condition_monitor.max = 0;
+    }
+
+    /**
+     * Prepares basic IC specific data
+     * - matrix attribute values from the host
+     * - device rating, attributes and skills from the host rating
+     * - matrix condition monitor
+     * - matrix initiative
+     * @param data
+     * @param host
+     */
+    static prepareICData(data: ICData, host?: HostData) {
+        const { skills, attributes, matrix } = data;
+
+        const rating = host ? host.rating : data.rating;
+        const asdf = host ? host.asdf : {attack: 0, sleaze: 0, data_processing: 0, firewall: 0};
+
+        HostPrep.prepareMatrixAttributes(data, rating, asdf);
+        HostPrep.prepareMatrixInitiative(data, rating);
+
+        // IC tests use the host rating twice, for both attribute and skill.
+        ['intuition', 'logic', 'charisma', 'willpower'].forEach((att) => {
+            if (attributes[att] !== undefined) {
+                attributes[att].base = rating;
+                Helpers.calcTotal(attributes[att]);
+            }
+        });
+        const icSkills = ['computer', 'cybercombat', 'electronic_warfare', 'hacking'];
+        for (const [skillId, skill] of Object.entries(skills.active)) {
+            skill.base = icSkills.includes(skillId) ? rating : 0;
+        }
+
+        data.rating = rating;
+        matrix.condition_monitor.max = MatrixRules.icConditionMonitor(rating);
+    }
+
+    static prepareMatrixAttributes(data: HostData | ICData, rating: number, asdf: HostAttributeOffsets) {
+        const { matrix } = data;
+
+        ['attack', 'sleaze', 'data_processing', 'firewall'].forEach((att) => {
+            if (matrix[att] !== undefined) {
+                matrix[att].base = rating + (Number(asdf[att]) || 0);
+                matrix[att].value = Helpers.calcTotal(matrix[att]);
+            }
+        });
+
+        matrix.rating = rating;
+    }
+
+    static prepareMatrixInitiative(data: HostData | ICData, rating: number) {
+        const { initiative, modifiers } = data;
+
+        initiative.matrix.base.base = MatrixRules.icInitiativeBase(rating);
+        PartsList.AddUniquePart(initiative.matrix.base.mod, 'SR5.Bonus', modifiers['matrix_initiative']);
+        Helpers.calcTotal(initiative.matrix.base);
+
+        initiative.matrix.dice.base = SR.matrix.ic_initiative_dice;
+        PartsList.AddUniquePart(initiative.matrix.dice.mod, 'SR5.Bonus', modifiers['matrix_initiative_dice']);
+        Helpers.calcTotal(initiative.matrix.dice);
+
+        // always in matrix perception
+        initiative.perception = 'matrix';
+    }
+}
@@ -0,0 +1,69 @@
+import {MagicRules} from '../../../rules/MagicRules';
+import {AttributeRules} from '../../../rules/AttributeRules';
+import {SR5} from '../../../config';
+import {PartsList} from '../../../parts/PartsList';
+import {Helpers} from '../../../helpers';
+import MagicActorData = Shadowrun.MagicActorData;
+import ActorTypesData = Shadowrun.ShadowrunActorDataData;
+
+export class MagicPrep {
+    /**
+     * Essence loss reduces magic, if magic hasn't been entered reduced already. Needs to be called before attributes
+     * are calculated.
+     */
+    static prepareMagicLoss(data: ActorTypesData & MagicActorData) {
+        const {attributes, magic} = data;
+        if (data.special !== 'magic' || !magic.apply_essence_loss) return;
+
+        const loss = AttributeRules.essenceLoss(attributes.essence.value);
+        if (loss) {
+            attributes.magic.mod = PartsList.AddUniquePart(attributes.magic.mod, 'SR5.Initiation.MagicLoss', -loss);
+        }
+    }
+
+    /**
+     * Limit magic by the initiation grade. Needs to be called after attributes are calculated.
+     */
+    static prepareMaxMagic(data: ActorTypesData & MagicActorData) {
+        const {attributes, magic} = data;
+        if (data.special !== 'magic') return;
+
+        const max = MagicRules.maxMagic(magic.initiation, attributes.essence.value);
+        Helpers.calcTotal(attributes.magic, {min: 0, max});
+    }
+
+    /**
+     * Replace physical attributes with mental attributes on the astral plane. Needs to be called after physical
+     * attributes have been used for condition monitors and movement.
+     */
+    static prepareAstralAttributes(data: ActorTypesData & MagicActorData) {
+        const {attributes, magic} = data;
+        if (data.special !== 'magic' || !MagicRules.isAstral(magic)) return;
+
+        for (const attribute of Object.keys(attributes)) {
+            const astralAttribute = MagicRules.astralAttribute(attribute);
+            if (astralAttribute) attributes[attribute].value = attributes[astralAttribute].value;
+        }
+    }
+
+    /**
+     * Add the astral limit for awakened actors. Needs to be called after mental and social limits are calculated.
+     */
+    static prepareAstralLimit(data: ActorTypesData & MagicActorData) {
+        const {limits} = data;
+        if (data.special !== 'magic') return;
+
+        const value = MagicRules.astralLimit(limits.mental.value, limits.social.value);
+        limits.astral = {base: value, value, mod: [], hidden: false, label: SR5.limits.astral};
+    }
+
+    /**
+     * Actors on the astral plane always use astral initiative.
+     */
+    static prepareAstralInitiative(data: ActorTypesData & MagicActorData) {
+        const {initiative, magic} = data;
+        if (data.special !== 'magic' || !MagicRules.isAstral(magic)) return;
+
+        initiative.perception = 'astral';
+    }
+}
@@ -5,6 +5,7 @@ import { PartsList } from '../../../parts/PartsList';
 import {SR5} from "../../../config";
 import ActorTypesData = Shadowrun.ShadowrunActorDataData;
 import ShadowrunActorDataData = Shadowrun.ShadowrunActorDataData;
+import {MatrixRules} from "../../../rules/MatrixRules";
 
 export class MatrixPrep {
     /**
@@ -54,6 +55,7 @@ export class MatrixPrep {
                     }
                 }
             }
+            MatrixPrep.prepareRunningPrograms(actorData, items);
         } // if we don't have a device, use living persona
         else if (actorData.special === 'resonance') {
             matrix.firewall.base = Helpers.calcTotal(attributes.willpower);
@@ -70,6 +72,25 @@ export class MatrixPrep {
         }
     }
 
+    /**
+     * Running programs modify the matrix attributes of the device running them.
+     * @PDF SR5#245 'Common Programs' and 'Hacking Programs'
+     */
+    static prepareRunningPrograms(actorData: ActorTypesData & MatrixActorData, items: SR5ItemDataWrapper[]) {
+        const { matrix } = actorData;
+        const programs = items.filter((item) => item.isRunningProgram());
+
+        ['firewall', 'sleaze', 'data_processing', 'attack'].forEach((key) => {
+            const parts = new PartsList(matrix[key].mod);
+            programs.forEach((program) => {
+                const bonus = MatrixRules.programEffect(program.getName())[key];
+                if (bonus) parts.addUniquePart(program.getName(), bonus);
+            });
+            matrix[key].mod = parts.list;
+            matrix[key].value = parts.total;
+        });
+    }
+
     /**
      * Add Matrix Attributes to Limits and Attributes
      * @param data
@@ -0,0 +1,55 @@
+import {PartsList} from '../../../parts/PartsList';
+import {Helpers} from '../../../helpers';
+import {SR5ItemDataWrapper} from '../../../data/SR5ItemDataWrapper';
+import {MatrixRules} from '../../../rules/MatrixRules';
+import {AttributeRules} from '../../../rules/AttributeRules';
+import CharacterData = Shadowrun.CharacterData;
+
+export class TechnomancerPrep {
+    /**
+     * Essence loss reduces resonance, if resonance hasn't been entered reduced already. Needs to be called before
+     * attributes are calculated.
+     */
+    static prepareResonanceLoss(data: CharacterData) {
+        const {attributes, technomancer} = data;
+        if (data.special !== 'resonance' || !technomancer.apply_essence_loss) return;
+
+        const loss = AttributeRules.essenceLoss(attributes.essence.value);
+        if (loss) {
+            attributes.resonance.mod = PartsList.AddUniquePart(attributes.resonance.mod, 'SR5.Technomancer.ResonanceLoss', -loss);
+        }
+    }
+
+    /**
+     * Limit resonance by the submersion grade. Needs to be called after attributes are calculated.
+     */
+    static prepareMaxResonance(data: CharacterData) {
+        const {attributes, technomancer} = data;
+        if (data.special !== 'resonance') return;
+
+        const max = MatrixRules.maxResonance(technomancer.submersion, attributes.essence.value);
+        Helpers.calcTotal(attributes.resonance, {min: 0, max});
+    }
+
+    /**
+     * Echoes raise living persona attributes and matrix initiative dice. Needs to be called after the matrix
+     * attributes and before initiative is prepared.
+     */
+    static prepareEchoes(data: CharacterData, items: SR5ItemDataWrapper[]) {
+        const {matrix, initiative} = data;
+        if (data.special !== 'resonance' || matrix.device) return;
+
+        items.filter(item => item.isEcho()).forEach(echo => {
+            const {attribute, bonus, initiative_dice} = echo.getData();
+            if (attribute && bonus) {
+                const parts = new PartsList(matrix[attribute].mod);
+                parts.addUniquePart(echo.getName(), bonus);
+                matrix[attribute].mod = parts.list;
+                Helpers.calcTotal(matrix[attribute]);
+            }
+            if (initiative_dice) {
+                initiative.matrix.dice.mod = PartsList.AddUniquePart(initiative.matrix.dice.mod, echo.getName(), initiative_dice);
+            }
+        });
+    }
+}
@@ -3,6 +3,7 @@ import {Helpers} from "../helpers";
 import {SR5Actor} from "../actor/SR5Actor";
 import EnvironmentalModifierCategories = Shadowrun.EnvironmentalModifierCategories;
 import {Modifiers} from "../rules/Modifiers";
+import {MagicRules} from "../rules/MagicRules";
 
 export type EnvModifiersTarget = Scene | SR5Actor;
 
@@ -220,6 +221,19 @@ export class EnvModifiersApplication extends Application {
         modifier.append(modifierValue);
         modifier.append(modifierDescription);
 
+        // Show spells and complex forms sustained by the actor.
+        const sustained = actor.getSustainedEffects();
+        if (sustained.length > 0) {
+            const sustainedNames = sustained.map(effect => `${effect.name} (${effect.force})`).join(', ');
+            const sustaining = $('<div class="modifier-row"></div>').attr('title', sustainedNames);
+            const sustainingValue = $(`<div class="modifier-value modifier-value-sustaining">${MagicRules.sustainingModifier(sustained)}</div>`);
+            const sustainingDescription = $(`<div class="modifier-description">${game.i18n.localize('SR5.Sustaining.Label')} (${sustained.length})</div>`);
+
+            column.append(sustaining);
+            sustaining.append(sustainingValue);
+            sustaining.append(sustainingDescription);
+        }
+
         // Connect SR-FoundryVTT tokenHUD elements to FoundryVTT tokenHUD column structure.
         html.find('.col.right').after(container);
     }
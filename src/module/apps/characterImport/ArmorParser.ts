@@ -1,34 +1,22 @@
-import { parseDescription, getArray, parseTechnology, createItemData } from "./BaseParserFunctions.js"
+import {parseDescription, getArray, parseTechnology, createItemData} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
 
-export class ArmorParser {
-   
-    parseArmors(chummerChar) {
-        const armors = getArray(chummerChar.armors.armor);
-        const parsedArmors = [];
-        armors.forEach((chummerArmor) => {
-            try {
-                const itemData = this.parseArmor(chummerArmor);
-                parsedArmors.push(itemData);
-            } catch (e) {
-                console.error(e);
-            }
-        });
+export class ArmorParser extends BaseSectionParser {
+    readonly section = 'Armor';
 
-        return parsedArmors;
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.armors?.armor);
     }
 
-    parseArmor(chummerArmor) {
-        const data = {};
-        const armor = {};
+    parseEntry(chummerArmor: any): any {
+        const data: any = {};
+        const armor: any = {};
         data.armor = armor;
 
-        let desc = '';
         armor.mod = chummerArmor.armor.includes('+');
         armor.value = parseInt(chummerArmor.armor.replace('+', ''));
-        if (chummerArmor.description)
-            desc = chummerArmor.description;
 
-        console.log(chummerArmor);
+        const modDesc: string[] = [];
         if (chummerArmor.armormods && chummerArmor.armormods.armormod) {
             armor.fire = 0;
             armor.electricity = 0;
@@ -36,7 +24,6 @@ export class ArmorParser {
             armor.acid = 0;
             armor.radiation = 0;
 
-            const modDesc = [];
             const mods = getArray(chummerArmor.armormods.armormod);
             mods.forEach((mod) => {
                 if (mod.name.toLowerCase().includes('fire resistance')) {
@@ -54,15 +41,15 @@ export class ArmorParser {
                     modDesc.push(mod.name);
                 }
             });
-            if (modDesc.length > 0) {
-                // add desc to beginning
-                desc = `${modDesc.join(',')}\n\n${desc}`;
-            }
         }
 
         data.technology = parseTechnology(chummerArmor);
         data.description = parseDescription(chummerArmor);
-        
+        if (modDesc.length > 0) {
+            // add desc to beginning
+            data.description.value = `<p>${modDesc.join(', ')}</p>${data.description.value}`;
+        }
+
         return createItemData(chummerArmor.name, 'armor', data);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,116 @@
+import {DefaultValues} from "../../data/DataDefaults";
+import DescriptionData = Shadowrun.DescriptionData;
+import TechnologyData = Shadowrun.TechnologyData;
+
+export const getValues = (val: string): string[] => {
+    const regex = /(-?[0-9]+)(?:([0-9]+))*/g;
+    const l = String(val).match(regex);
+    return l || ['0'];
+};
+
+/**
+ * Chummer stores single entries of a list as an object and multiple entries as an array.
+ */
+export const getArray = (value: any): any[] => {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+};
+
+/**
+ * Chummer stores booleans as 'True' and 'False' strings.
+ */
+export const isTrue = (value: any): boolean => {
+    return String(value).toLowerCase() === 'true';
+};
+
+/**
+ *  Collects all nested children entries of the given chummer entry.
+ *  @param chummerEntry The chummer entry (the item)
+ *  @param key The children entry key (gear, cyberware, ...)
+ */
+export const getChildren = (chummerEntry: any, key: string): any[] => {
+    if (!chummerEntry.children) return [];
+    return getArray(chummerEntry.children[key]);
+};
+
+/**
+ *  Collects the given chummer entries and all their nested children entries into a flat list.
+ *  @param chummerEntries The chummer entries (the items)
+ *  @param key The children entry key (gear, cyberware, ...)
+ */
+export const flattenChildren = (chummerEntries: any[], key: string): any[] => {
+    return chummerEntries.reduce((entries, chummerEntry) => {
+        return entries.concat([chummerEntry], flattenChildren(getChildren(chummerEntry, key), key));
+    }, []);
+};
+
+/**
+ *  Creates the description data from the chummer entry
+ *  @param chummerEntry The chummer entry (the item)
+ */
+export const parseDescription = (chummerEntry: any): DescriptionData => {
+    const parsedDescription = DefaultValues.descriptionData();
+
+    if (chummerEntry.source && chummerEntry.page) {
+        parsedDescription.source = `${chummerEntry.source} ${chummerEntry.page}`
+    }
+
+    if (chummerEntry.description) {
+        parsedDescription.value = TextEditor.enrichHTML(chummerEntry.description);
+    }
+
+    return parsedDescription
+}
+
+/**
+ *  Creates the technology data from the chummer entry
+ *  @param chummerEntry The chummer entry (the item)
+ */
+export const parseTechnology = (chummerEntry: any): TechnologyData => {
+    const parsedTechnology = DefaultValues.technologyData();
+
+    if (chummerEntry.rating) {
+        parsedTechnology.rating = chummerEntry.rating;
+    }
+
+    if (chummerEntry.avail) {
+        parsedTechnology.availability = chummerEntry.avail;
+    }
+
+    if (chummerEntry.qty) {
+        parsedTechnology.quantity = chummerEntry.qty;
+    }
+
+    if (chummerEntry.cost) {
+        parsedTechnology.cost = parseFloat(String(chummerEntry.cost).replace(/[^\d\.\-]/g, ""));
+    }
+
+    if (chummerEntry.equipped && isTrue(chummerEntry.equipped)) {
+        parsedTechnology.equipped = true;
+    }
+
+    if (chummerEntry.conditionmonitor) {
+        parsedTechnology.condition_monitor.max = Number(chummerEntry.conditionmonitor);
+    }
+
+    if (chummerEntry.conceal) {
+        parsedTechnology.conceal.base = Number(chummerEntry.conceal);
+    }
+
+    return parsedTechnology
+}
+
+export const createItemData = (name: string, type: string, data: object): any => {
+    return {
+        name: name,
+        _id: '',
+        folder: '',
+        flags: {},
+        img: 'icons/svg/mystery-man.svg',
+        type: type,
+        data,
+        permission: {
+            default: 2,
+        },
+    };
+}
@@ -0,0 +1,56 @@
+import {ImportReport} from "./ImportReport";
+import {FLAGS, SYSTEM_NAME} from "../../constants";
+
+/**
+ * Parses a section (weapons, armors, ...) of a chummer character and turns its entries into foundry sr item data.
+ *
+ * Entries that can't be parsed will be added to the import report instead of stopping the whole import.
+ */
+export abstract class BaseSectionParser {
+    /**
+     * The chummer section name as shown to the user within the import report.
+     */
+    abstract readonly section: string;
+
+    /**
+     * Collects all entries of this section from the chummer character.
+     * @param chummerChar The chummer character holding the section.
+     */
+    abstract getEntries(chummerChar: any): any[];
+
+    /**
+     * Parses a single section entry and returns the corresponding foundry sr item data.
+     * @param chummerEntry A chummer section entry
+     * @param report The report to add entries to that can't be mapped.
+     * @return undefined for entries that shouldn't be imported.
+     */
+    abstract parseEntry(chummerEntry: any, report: ImportReport): any | undefined;
+
+    /**
+     * Parses all entries of this section.
+     * @param chummerChar The chummer character holding the section.
+     * @param report The report to add entries to that can't be mapped.
+     */
+    parse(chummerChar: any, report: ImportReport): any[] {
+        const parsedItems: any[] = [];
+
+        this.getEntries(chummerChar).forEach((chummerEntry) => {
+            try {
+                const itemData = this.parseEntry(chummerEntry, report);
+                if (!itemData) return;
+
+                // Remember the items origin for later re-imports.
+                setProperty(itemData, `flags.${SYSTEM_NAME}.${FLAGS.ChummerImport}`, {
+                    guid: chummerEntry.guid ?? '',
+                    section: this.section
+                });
+                parsedItems.push(itemData);
+            } catch (e) {
+                console.error(e);
+                report.addUnmapped(this.section, chummerEntry?.name ?? '', String(e));
+            }
+        });
+
+        return parsedItems;
+    }
+}
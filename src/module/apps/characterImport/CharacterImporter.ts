@@ -0,0 +1,271 @@
+import {CharacterInfoUpdater} from "./CharacterInfoUpdater"
+import {ItemsParser} from "./ItemsParser"
+import {VehicleParser} from "./VehicleParser";
+import {ImportReport} from "./ImportReport";
+import {SR5Actor} from "../../actor/SR5Actor";
+import {SR5Item} from "../../item/SR5Item";
+import {FLAGS, SYSTEM_NAME} from "../../constants";
+import {ChummerImportPreviewDialog} from "../dialogs/ChummerImportPreviewDialog";
+import ChummerImportOptions = Shadowrun.ChummerImportOptions;
+import ChummerImportItemChanges = Shadowrun.ChummerImportItemChanges;
+import ChummerImportData = Shadowrun.ChummerImportData;
+import ChummerImportVehicleChange = Shadowrun.ChummerImportVehicleChange;
+import ChummerImportRemovedVehicle = Shadowrun.ChummerImportRemovedVehicle;
+
+/**
+ * Imports characters from other tools into an existing foundry actor.
+ */
+export class CharacterImporter {
+    /**
+     * Item data changed during play, that must survive a re-import.
+     */
+    static PRESERVED_ITEM_FIELDS = [
+        'ammo.current.value',
+        'ammo.spare_clips.value',
+        'technology.condition_monitor.value',
+        'description.value'
+    ];
+
+    /**
+     * Imports a chummer character into an existing actor. The actor will be updated.
+     *
+     * Items already owned by the actor will be updated in place instead of created again, allowing for re-imports.
+     * Owned vehicles will be imported as separate vehicle actors, driven by the actor. Previously imported vehicles
+     * no longer owned will be removed alongside removed items.
+     * All item and vehicle changes will be previewed to the user before anything is written.
+     *
+     * @param actor The actor that will be updated with the chummer character.
+     * @param chummerFile The complete chummer file as json object. The first character will be selected for import.
+     * @param importOptions Additional import option that specify what parts of the chummer file will be imported.
+     * @return A report of the import, including everything that couldn't be mapped. Nothing, if the import has been canceled.
+     */
+    async importChummerCharacter(actor: SR5Actor, chummerFile: any, importOptions: ChummerImportOptions): Promise<ImportReport | undefined> {
+        console.log('Importing the following character file content:');
+        console.log(chummerFile);
+
+        console.log('Using the following import options:')
+        console.log(importOptions);
+
+        if (!chummerFile.characters || !chummerFile.characters.character) {
+            console.log('Did not find a valid character to import  - aborting import');
+            return;
+        }
+
+        const report = new ImportReport();
+
+        const chummerCharacter = chummerFile.characters.character;
+        const updatedActorData = new CharacterInfoUpdater().update(actor.data, chummerCharacter, report);
+        const itemsParser = new ItemsParser();
+        const items = itemsParser.parse(chummerCharacter, importOptions, report);
+
+        const changes = this.collectItemChanges(actor.items.filter(() => true), items, itemsParser.selectSections(importOptions));
+        const vehicles = importOptions.vehicles ? this.collectVehicleChanges(actor, chummerCharacter, report) : [];
+        const removedVehicles = importOptions.vehicles ? this.collectRemovedVehicles(actor, vehicles) : [];
+
+        const previewDialog = new ChummerImportPreviewDialog(changes, vehicles, removedVehicles);
+        const {deleteRemoved} = await previewDialog.select();
+        if (previewDialog.canceled) return;
+
+        // Only update actor fields, as embedded items are handled separately.
+        await actor.update({name: updatedActorData.name, data: updatedActorData.data});
+        await this.applyItemChanges(actor, changes, deleteRemoved);
+
+        report.created = changes.create.length;
+        report.updated = changes.update.length;
+        report.removed = deleteRemoved ? changes.remove.length : 0;
+
+        for (const vehicleChange of vehicles) {
+            await this.applyVehicleChange(actor, vehicleChange, deleteRemoved);
+            if (vehicleChange.existingId) report.vehiclesUpdated += 1;
+            else report.vehiclesCreated += 1;
+        }
+
+        if (deleteRemoved) {
+            for (const {_id} of removedVehicles) {
+                await game.actors.get(_id)?.delete();
+            }
+            report.vehiclesRemoved = removedVehicles.length;
+        }
+
+        return report;
+    }
+
+    /**
+     * Write all previewed item changes onto the actor.
+     *
+     * @param actor The actor receiving the imported items.
+     * @param changes The previewed item changes.
+     * @param deleteRemoved Should previously imported items, not part of this import anymore, be deleted?
+     */
+    async applyItemChanges(actor: SR5Actor, changes: ChummerImportItemChanges, deleteRemoved: boolean) {
+        const updates = changes.update.map(({_id, data}) => ({_id, ...data}));
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        await actor.updateEmbeddedDocuments('Item', updates);
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        await actor.createEmbeddedDocuments('Item', changes.create);
+        if (deleteRemoved) {
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            await actor.deleteEmbeddedDocuments('Item', changes.remove.map(item => item._id));
+        }
+    }
+
+    /**
+     * Parse all vehicles owned by the chummer character and match them to vehicle actors of previous imports.
+     *
+     * Vehicle actors are matched by their chummer guid, or when imported without guid, by name. Only vehicles
+     * driven by the importing actor are matched, so two characters owning the same vehicle won't share it.
+     *
+     * @param actor The actor owning the vehicles.
+     * @param chummerCharacter The chummer character holding the vehicles section.
+     * @param report The report to add entries to that can't be mapped.
+     */
+    collectVehicleChanges(actor: SR5Actor, chummerCharacter: any, report: ImportReport): ChummerImportVehicleChange[] {
+        const vehicleParser = new VehicleParser();
+        const driven = actor.getDrivenVehicles();
+        const matchedIds: string[] = [];
+
+        return vehicleParser.parse(chummerCharacter, report).map(({items, ...actorData}) => {
+            const {guid} = actorData.flags[SYSTEM_NAME][FLAGS.ChummerImport];
+            const unmatched = driven.filter(vehicle => !matchedIds.includes(vehicle.id as string));
+            const existing = unmatched.find(vehicle => guid && vehicle.getFlag(SYSTEM_NAME, FLAGS.ChummerImport)?.guid === guid) ??
+                             unmatched.find(vehicle => vehicle.name === actorData.name);
+
+            if (existing) matchedIds.push(existing.id as string);
+
+            const owned = existing ? existing.items.filter(() => true) : [];
+            return {
+                name: actorData.name,
+                existingId: existing?.id as string | undefined,
+                actorData,
+                items: this.collectItemChanges(owned, items, vehicleParser.itemSections)
+            };
+        });
+    }
+
+    /**
+     * Collect all vehicle actors of previous imports, driven by the actor, that aren't part of this import anymore.
+     *
+     * Vehicles never imported, like those added by hand, won't be collected.
+     *
+     * @param actor The actor owning the vehicles.
+     * @param vehicles The vehicle changes of this import.
+     */
+    collectRemovedVehicles(actor: SR5Actor, vehicles: ChummerImportVehicleChange[]): ChummerImportRemovedVehicle[] {
+        const matchedIds = vehicles.map(vehicle => vehicle.existingId);
+
+        return actor.getDrivenVehicles()
+            .filter(vehicle => !matchedIds.includes(vehicle.id as string))
+            .filter(vehicle => !!vehicle.getFlag(SYSTEM_NAME, FLAGS.ChummerImport))
+            .map(vehicle => ({_id: vehicle.id as string, name: vehicle.name as string}));
+    }
+
+    /**
+     * Create or update the vehicle actor and its items and make the importing actor its driver.
+     *
+     * New vehicle actors share the permissions of the importing actor, so players can use them.
+     *
+     * @param actor The actor owning the vehicle.
+     * @param vehicleChange The previewed vehicle change.
+     * @param deleteRemoved Should previously imported items, not part of this import anymore, be deleted?
+     */
+    async applyVehicleChange(actor: SR5Actor, vehicleChange: ChummerImportVehicleChange, deleteRemoved: boolean) {
+        const {name, data, flags} = vehicleChange.actorData;
+
+        let vehicle = vehicleChange.existingId ? game.actors.get(vehicleChange.existingId) as SR5Actor : undefined;
+        if (vehicle) {
+            await vehicle.update({name, data, flags});
+        } else {
+            vehicle = await Actor.create({
+                ...vehicleChange.actorData,
+                permission: duplicate(actor.data.permission)
+            }) as SR5Actor;
+        }
+        if (!vehicle) return;
+
+        await this.applyItemChanges(vehicle, vehicleChange.items, deleteRemoved);
+        await vehicle.addVehicleDriver(actor.id as string);
+    }
+
+    /**
+     * Compare imported items to those the actor already owns and collect what to create, update and remove.
+     *
+     * Owned items are matched by their chummer guid, or when imported without guid, by name and type.
+     * Each owned item will only be matched once, to allow for multiple items of the same name.
+     * Only previously imported items of an imported section will be removed, never items added by hand.
+     *
+     * @param ownedItems The items the actor already owns.
+     * @param items The imported item data.
+     * @param sections The chummer sections that have been imported.
+     */
+    collectItemChanges(ownedItems: SR5Item[], items: any[], sections: string[]): ChummerImportItemChanges {
+        const changes: ChummerImportItemChanges = {create: [], update: [], remove: []};
+        const matchedIds: string[] = [];
+
+        const getImportData = (item): ChummerImportData | undefined => item.getFlag(SYSTEM_NAME, FLAGS.ChummerImport);
+
+        items.forEach(itemData => {
+            const {guid} = itemData.flags[SYSTEM_NAME][FLAGS.ChummerImport];
+            const unmatched = ownedItems.filter(item => !matchedIds.includes(item.id as string));
+            const existing = unmatched.find(item => guid && getImportData(item)?.guid === guid) ??
+                             unmatched.find(item => item.type === itemData.type && item.name === itemData.name);
+
+            if (!existing) {
+                delete itemData._id;
+                changes.create.push(itemData);
+                return;
+            }
+
+            matchedIds.push(existing.id as string);
+
+            // Compare against source data, as values derived during data preparation aren't user changes.
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+            const data = this.collectChangedData(existing.data._source, itemData);
+            const changedKeys = Object.keys(data);
+            if (changedKeys.length === 0) return;
+
+            changes.update.push({
+                _id: existing.id as string,
+                name: existing.name as string,
+                type: existing.type,
+                changes: changedKeys,
+                data
+            });
+        });
+
+        ownedItems.forEach(item => {
+            if (matchedIds.includes(item.id as string)) return;
+            const importData = getImportData(item);
+            if (!importData || !sections.includes(importData.section)) return;
+
+            changes.remove.push({_id: item.id as string, name: item.name as string, type: item.type});
+        });
+
+        return changes;
+    }
+
+    /**
+     * Collect all imported values differing from the owned item, except for values changed during play.
+     *
+     * @param existingData The owned item source data, without any prepared values.
+     * @param itemData The imported item data.
+     * @return Flattened update data.
+     */
+    collectChangedData(existingData: any, itemData: any): Record<string, any> {
+        const existing = flattenObject({name: existingData.name, data: existingData.data, flags: existingData.flags});
+        const imported = flattenObject({name: itemData.name, data: itemData.data, flags: itemData.flags});
+
+        const changed = {};
+        Object.entries(imported).forEach(([key, value]) => {
+            if (existing[key] === value) return;
+            // Arrays and empty objects are kept as values when flattened, which never are the same instance.
+            if (typeof value === 'object' && value !== null && JSON.stringify(existing[key]) === JSON.stringify(value)) return;
+
+            const preserved = CharacterImporter.PRESERVED_ITEM_FIELDS.some(field => key === `data.${field}`);
+            if (preserved && existing[key] !== undefined && existing[key] !== '') return;
+
+            changed[key] = value;
+        });
+
+        return changed;
+    }
+}
@@ -1,15 +1,21 @@
 import {_mergeWithMissingSkillFields} from "../../actor/prep/functions/SkillsPrep";
+import {getArray, isTrue} from "./BaseParserFunctions";
+import {ImportReport} from "./ImportReport";
 
 /**
  * Parses all non-item character information from a chummer character object.
  */
 export class CharacterInfoUpdater {
+    /**
+     * Chummer attributes reduced by essence loss.
+     */
+    static ESSENCE_LOSS_ATTRIBUTES = ['mag', 'res'];
 
     /**
      *  Maps the chummer attribute name to our sr5-foundry attribute name
      *  @param attName name of the chummer attribute
      */
-    parseAttName = (attName) =>  {
+    parseAttName = (attName: string): string | undefined =>  {
         if (attName.toLowerCase() === 'bod') {
             return 'body';
         }
@@ -45,21 +51,20 @@ export class CharacterInfoUpdater {
         }
     };
 
-    getArray = (value) => {
-        return Array.isArray(value) ? value : [value];
-    };
-
-
     /**
      *  Converts the chummer attribute value to our sr5-foundry attribute value
      *  @param att the chummer attribute
      */
-    parseAttBaseValue = (att) => {
+    parseAttBaseValue = (att: any): number => {
         if (att.name.toLowerCase() === 'edg') {
             // The edge attribute value is stored in the "base" field instead of the total field
             // In chummer, the "total" field is used for the amount of edge remaining to a character
             return parseInt(att.base);
         }
+        else if (CharacterInfoUpdater.ESSENCE_LOSS_ATTRIBUTES.includes(att.name.toLowerCase())) {
+            // The "total" field has essence loss applied already, which is applied again during preparation.
+            return parseInt(att.base);
+        }
         else {
             return parseInt(att.total);
         }
@@ -67,10 +72,11 @@ export class CharacterInfoUpdater {
 
     /**
      * Parses the actor data from the chummer file and returns an updated clone of the actor data.
-     * @param {*} actorData The actor data (actor.data not actor.data.data) that is used as the basis for the import. Will not be changed.
-     * @param {*} chummerChar The chummer character to parse.
+     * @param actorData The actor data (actor.data not actor.data.data) that is used as the basis for the import. Will not be changed.
+     * @param chummerChar The chummer character to parse.
+     * @param report The report to add information to that can't be mapped.
      */
-    update(actorData, chummerChar) {
+    update(actorData: any, chummerChar: any, report: ImportReport): any {
 
         const clonedActorData = duplicate(actorData);
 
@@ -87,11 +93,13 @@ export class CharacterInfoUpdater {
         this.importAttributes(clonedActorData.data, chummerChar)
         this.importInitiative(clonedActorData.data, chummerChar);
         this.importSkills(clonedActorData.data, chummerChar);
+        this.importSubmersion(clonedActorData.data, chummerChar);
+        this.importInitiation(clonedActorData.data, chummerChar);
 
         return clonedActorData;
     }
 
-    importBasicData(actorDataData, chummerChar) {
+    importBasicData(actorDataData: any, chummerChar: any) {
 
         try {
             if (chummerChar.playername) {
@@ -130,15 +138,12 @@ export class CharacterInfoUpdater {
             if (chummerChar.totalkarma) {
                 actorDataData.karma.max = chummerChar.totalkarma;
             }
-            if (chummerChar.technomancer && chummerChar.technomancer.toLowerCase() === 'true') {
+            if (isTrue(chummerChar.technomancer)) {
                 actorDataData.special = 'resonance';
             }
-            if (
-                (chummerChar.magician && chummerChar.magician.toLowerCase() === 'true') ||
-                (chummerChar.adept && chummerChar.adept.toLowerCase() === 'true')
-            ) {
+            if (isTrue(chummerChar.magician) || isTrue(chummerChar.adept)) {
                 actorDataData.special = 'magic';
-                let attr = [];
+                let attr: string[] = [];
                 if (
                     chummerChar.tradition &&
                     chummerChar.tradition.drainattribute &&
@@ -152,7 +157,7 @@ export class CharacterInfoUpdater {
                 }
                 attr.forEach((att) => {
                     const attName = this.parseAttName(att);
-                    if (attName !== 'willpower') actorDataData.magic.attribute = att;
+                    if (attName && attName !== 'willpower') actorDataData.magic.attribute = attName;
                 });
             }
             if (chummerChar.totaless) {
@@ -166,7 +171,11 @@ export class CharacterInfoUpdater {
         }
     }
 
-    importBio(actorDataData, chummerChar) {
+    importBio(actorDataData: any, chummerChar: any) {
+        // Keep notes taken on an already imported character.
+        if (actorDataData.description.value) {
+            return;
+        }
         actorDataData.description.value = '';
 
         // Chummer outputs html and wraps every section in <p> tags,
@@ -188,8 +197,8 @@ export class CharacterInfoUpdater {
         }
     }
 
-    importAttributes(actorDataData, chummerChar) {
-        const atts = chummerChar.attributes[1].attribute;
+    importAttributes(actorDataData: any, chummerChar: any) {
+        const atts = getArray(chummerChar.attributes[1].attribute);
         atts.forEach((att) => {
             try {
                 const attName = this.parseAttName(att.name);
@@ -201,10 +210,14 @@ export class CharacterInfoUpdater {
                 console.error(`Error while parsing attributes ${e}`);
             }
         });
+
+        // Essence loss hasn't been imported, so it must be applied during preparation.
+        actorDataData.technomancer = {...actorDataData.technomancer, apply_essence_loss: true};
+        actorDataData.magic = {...actorDataData.magic, apply_essence_loss: true};
     }
 
     // TODO: These modifiers are very unclear in how they're used here and where they come from.
-    importInitiative(actorDataData, chummerChar) {
+    importInitiative(actorDataData: any, chummerChar: any) {
         try {
             actorDataData.modifiers.meat_initiative = chummerChar.initbonus;
 
@@ -215,23 +228,22 @@ export class CharacterInfoUpdater {
         }
     }
 
-    importSkills(actorDataData, chummerChar) {
-        const chummerSkills = chummerChar.skills.skill;
+    importSkills(actorDataData: any, chummerChar: any) {
+        const chummerSkills = getArray(chummerChar.skills?.skill);
         for (let i = 0; i < chummerSkills.length; i++) {
             try {
                 const chummerSkill = chummerSkills[i];
                 if (chummerSkill.rating > 0 && chummerSkill.islanguage) {
                     let determinedGroup = 'active';
-                    let parsedSkill = null;
-                    const id = randomID(16);
-                    if (chummerSkill.islanguage && chummerSkill.islanguage.toLowerCase() === 'true') {
-                        parsedSkill = {};
+                    let parsedSkill: any = null;
+                    if (isTrue(chummerSkill.islanguage)) {
+                        const id = this.getSkillId(actorDataData.skills.language.value, chummerSkill.name);
+                        parsedSkill = actorDataData.skills.language.value[id] ?? {};
                         actorDataData.skills.language.value[id] = parsedSkill;
                         determinedGroup = 'language';
                     }
-                    else if (chummerSkill.knowledge && chummerSkill.knowledge.toLowerCase() === 'true') {
+                    else if (isTrue(chummerSkill.knowledge)) {
                         const category = chummerSkill.skillcategory_english;
-                        parsedSkill = {};
 
                         // Determine the correct knowledge skill category and assign the skill to it
                         let skillCategory;
@@ -245,17 +257,20 @@ export class CharacterInfoUpdater {
                                 skillCategory = actorDataData.skills.knowledge.professional.value;
                             if (cat === 'interest')
                                 skillCategory = actorDataData.skills.knowledge.interests.value;
-                            if (skillCategory)
-                                skillCategory[id] = parsedSkill;
                         }
                         else {
                             if (chummerSkill.attribute.toLowerCase() === 'int') {
-                                actorDataData.skills.knowledge.street.value[id] = parsedSkill;
+                                skillCategory = actorDataData.skills.knowledge.street.value;
                             }
                             if (chummerSkill.attribute.toLowerCase() === 'log') {
-                                actorDataData.skills.knowledge.professional.value[id] = parsedSkill;
+                                skillCategory = actorDataData.skills.knowledge.professional.value;
                             }
                         }
+                        if (skillCategory) {
+                            const id = this.getSkillId(skillCategory, chummerSkill.name);
+                            parsedSkill = skillCategory[id] ?? {};
+                            skillCategory[id] = parsedSkill;
+                        }
                         determinedGroup = 'knowledge';
                     }
                     else {
@@ -278,7 +293,7 @@ export class CharacterInfoUpdater {
                         parsedSkill.base = parseInt(chummerSkill.rating);
 
                         if (chummerSkill.skillspecializations) {
-                            parsedSkill.specs = this.getArray(
+                            parsedSkill.specs = getArray(
                                 chummerSkill.skillspecializations.skillspecialization.name
                             );
                         }
@@ -292,6 +307,33 @@ export class CharacterInfoUpdater {
         }
     }
 
+    /**
+     * Reuse the id of an already imported knowledge or language skill, to allow for re-imports without duplicate skills.
+     * @param skills The skills of a knowledge or language category.
+     * @param name The chummer skill name.
+     */
+    getSkillId(skills: object, name: string): string {
+        const existing = Object.entries(skills).find(([id, skill]) => skill?.name === name);
+        return existing ? existing[0] : randomID(16);
+    }
 
-}
+    /**
+     * Chummer lists submersion grades together with initiation grades.
+     */
+    importSubmersion(actorDataData: any, chummerChar: any) {
+        const grades = getArray(chummerChar.initiationgrades?.initiationgrade).filter(grade => isTrue(grade.res));
+        if (grades.length) {
+            actorDataData.technomancer = {...actorDataData.technomancer, submersion: grades.length};
+        }
+    }
 
+    /**
+     * Initiation grades are all grades not marked as submersion.
+     */
+    importInitiation(actorDataData: any, chummerChar: any) {
+        const grades = getArray(chummerChar.initiationgrades?.initiationgrade).filter(grade => !isTrue(grade.res));
+        if (grades.length) {
+            actorDataData.magic = {...actorDataData.magic, initiation: grades.length};
+        }
+    }
+}
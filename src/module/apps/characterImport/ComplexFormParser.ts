@@ -0,0 +1,36 @@
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
+import {DefaultValues} from "../../data/DataDefaults";
+import {BaseSectionParser} from "./BaseSectionParser";
+import {SR5} from "../../config";
+
+export class ComplexFormParser extends BaseSectionParser {
+    readonly section = 'Complex Forms';
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.complexforms?.complexform);
+    }
+
+    parseEntry(chummerComplexForm: any): any {
+        const data: any = {};
+        data.description = parseDescription(chummerComplexForm);
+
+        const target = String(chummerComplexForm.target || '').toLowerCase();
+        data.target = target in SR5.matrixTargets ? target : 'other';
+
+        const duration = String(chummerComplexForm.duration || '').toLowerCase();
+        if (duration === 's') data.duration = 'sustained';
+        else if (duration === 'i') data.duration = 'instant';
+        else if (duration === 'p') data.duration = 'permanent';
+
+        // Chummer stores fading values relative to the level, e.g. 'L+1'.
+        data.fade = parseInt(String(chummerComplexForm.fv || '').replace('L', '')) || 0;
+
+        data.action = DefaultValues.actionRollData({
+            type: 'complex',
+            skill: 'software',
+            attribute: 'resonance',
+        });
+
+        return createItemData(chummerComplexForm.name, 'complex_form', data);
+    }
+}
@@ -1,25 +1,15 @@
-import { parseDescription, getArray, createItemData } from "./BaseParserFunctions.js"
+import {parseDescription, getArray, createItemData, isTrue} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
 
-export class ContactParser {
-    parseContacts(chummerChar) {
-        
-        const chummerContacts = getArray(chummerChar.contacts.contact);
-        const parsedContacts = [];
+export class ContactParser extends BaseSectionParser {
+    readonly section = 'Contacts';
 
-        chummerContacts.forEach((chummerContact) => {
-            try {
-                const itemData = this.parseContact(chummerContact);
-                parsedContacts.push(itemData);
-            } catch (e) {
-                console.error(e);
-            }
-        });
-
-        return parsedContacts;
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.contacts?.contact);
     }
 
-    parseContact(chummerContact) {
-        const data = {};
+    parseEntry(chummerContact: any): any {
+        const data: any = {};
         data.type = chummerContact.role;
 
         // Group contacts are stored in chummer as 'Group(connectionRating)', e.g. 'Group(5)'
@@ -35,12 +25,12 @@ export class ContactParser {
         }
 
         data.loyalty = chummerContact.loyalty;
-        data.family = (chummerContact.family.toLowerCase() === 'true');
-        data.blackmail = (chummerContact.blackmail.toLowerCase() === 'true');
+        data.family = isTrue(chummerContact.family);
+        data.blackmail = isTrue(chummerContact.blackmail);
         data.description = parseDescription(chummerContact);
 
         const itemName = chummerContact.name ? chummerContact.name : '[Unnamed connection]';
         const itemData = createItemData(itemName, 'contact', data);
         return itemData;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+import {ImportReport} from "./ImportReport";
+import {SR5} from "../../config";
+
+export class CritterPowerParser extends BaseSectionParser {
+    readonly section = 'Critter Powers';
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.critterpowers?.critterpower);
+    }
+
+    parseEntry(chummerPower: any, report: ImportReport): any {
+        const data: any = {};
+        data.description = parseDescription(chummerPower);
+
+        const category = String(chummerPower.category || '').toLowerCase().replace(/\s/g, '_');
+        if (category in SR5.critterPower.categories) {
+            data.category = category;
+        } else {
+            report.addUnmapped(this.section, chummerPower.name, `Category ${chummerPower.category} is not supported`);
+        }
+
+        if (chummerPower.type === 'M') data.powerType = 'mana';
+        else if (chummerPower.type === 'P') data.powerType = 'physical';
+
+        data.range = this.parseRange(chummerPower.range);
+
+        const duration = String(chummerPower.duration || '').toLowerCase();
+        data.duration = duration in SR5.critterPower.durations ? duration : 'special';
+
+        data.karma = parseInt(chummerPower.karma) || 0;
+
+        const itemName = chummerPower.extra ? `${chummerPower.name} (${chummerPower.extra})` : chummerPower.name;
+        return createItemData(itemName, 'critter_power', data);
+    }
+
+    /**
+     * Maps the chummer range, e.g. 'LOS (A)', to our sr5-foundry critter power range.
+     */
+    parseRange(chummerRange: string): string {
+        const range = String(chummerRange || '').toLowerCase();
+        if (range.startsWith('los')) return range.includes('(a)') ? 'los_a' : 'los';
+        if (range === 'self' || range === 'touch') return range;
+        return 'special';
+    }
+}
@@ -0,0 +1,48 @@
+import {parseDescription, getArray, parseTechnology, createItemData, flattenChildren} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+import {ImportReport} from "./ImportReport";
+import {SR5} from "../../config";
+
+export class CyberwareParser extends BaseSectionParser {
+    readonly section = 'Cyberware';
+
+    /**
+     * Cyberware can contain other cyberware (cyberlimbs, cybereyes, ...), which will be imported as separate items.
+     */
+    getEntries(chummerChar: any): any[] {
+        return flattenChildren(getArray(chummerChar.cyberwares?.cyberware), 'cyberware');
+    }
+
+    parseEntry(chummerCyber: any, report: ImportReport): any {
+        const data: any = {};
+        data.description = parseDescription(chummerCyber);
+        data.technology = parseTechnology(chummerCyber);
+
+        // Cyberware has no equipped flag in chummer so it cannot be parsed - we consider it as always equipped
+        data.technology.equipped = true;
+        data.essence = parseFloat(chummerCyber.ess) || 0;
+        data.capacity = parseInt(chummerCyber.capacity) || 0;
+        data.grade = this.parseGrade(chummerCyber, report);
+
+        // Chummer lists bioware within the cyberware section.
+        const type = chummerCyber.improvementsource === 'Bioware' ? 'bioware' : 'cyberware';
+
+        return createItemData(chummerCyber.name, type, data);
+    }
+
+    /**
+     *  Maps the chummer grade name to our sr5-foundry grade. Chummer uses names like 'Alphaware' or 'Standard (Second-Hand)'.
+     */
+    parseGrade(chummerCyber: any, report: ImportReport): string {
+        const grade = String(chummerCyber.grade || '').toLowerCase();
+        if (grade === '' || grade === 'none' || grade.startsWith('standard')) {
+            return grade.includes('second-hand') ? 'used' : 'standard';
+        }
+
+        const mappedGrade = Object.keys(SR5.cyberwareGrades).find(key => grade.startsWith(key));
+        if (mappedGrade) return mappedGrade;
+
+        report.addUnmapped(this.section, chummerCyber.name, `Grade ${chummerCyber.grade} has been imported as standard`);
+        return 'standard';
+    }
+}
@@ -0,0 +1,28 @@
+import ChummerImportReportEntry = Shadowrun.ChummerImportReportEntry;
+
+/**
+ * Collects what happened during a character import, to be shown to the user afterwards.
+ */
+export class ImportReport {
+    created: number = 0;
+    updated: number = 0;
+    removed: number = 0;
+    vehiclesCreated: number = 0;
+    vehiclesUpdated: number = 0;
+    vehiclesRemoved: number = 0;
+    unmapped: ChummerImportReportEntry[] = [];
+
+    /**
+     * Store a Chummer entry that couldn't be mapped onto system data.
+     * @param section The Chummer character section the entry is from.
+     * @param name The entry name.
+     * @param reason Why the entry couldn't be mapped.
+     */
+    addUnmapped(section: string, name: string, reason: string) {
+        this.unmapped.push({section, name, reason});
+    }
+
+    get hasUnmapped(): boolean {
+        return this.unmapped.length > 0;
+    }
+}
@@ -0,0 +1,72 @@
+import { GearsParser } from "./gearImport/GearsParser"
+import { ArmorParser } from "./ArmorParser";
+import { CyberwareParser } from "./CyberwareParser";
+import { QualityParser } from "./QualityParser";
+import { PowerParser } from "./PowerParser";
+import { SpellParser } from "./SpellParser";
+import { WeaponParser } from "./WeaponParser";
+import { LifestyleParser } from "./LifestyleParser";
+import { ContactParser } from "./ContactParser";
+import { ComplexFormParser } from "./ComplexFormParser";
+import { CritterPowerParser } from "./CritterPowerParser";
+import { MartialArtsParser } from "./MartialArtsParser";
+import { MetamagicParser } from "./MetamagicParser";
+import { BaseSectionParser } from "./BaseSectionParser";
+import { ImportReport } from "./ImportReport";
+import ChummerImportOptions = Shadowrun.ChummerImportOptions;
+
+/**
+ * Parses all items (qualities, weapons, gear, ...) from a chummer character.
+ */
+export class ItemsParser {
+
+    /**
+     * Parses all items from a chummer char and returns an array of the corresponding foundry items.
+     * @param chummerChar The chummer char holding the items
+     * @param importOptions Additional import option that specify what items will be imported.
+     * @param report The report to add entries to that can't be mapped.
+     */
+    parse(chummerChar: any, importOptions: ChummerImportOptions, report: ImportReport): any[] {
+        const parsedItems: any[] = [];
+
+        this.selectParsers(importOptions).forEach(parser => {
+            parsedItems.push(...parser.parse(chummerChar, report));
+        });
+
+        return parsedItems;
+    }
+
+    /**
+     * Collects the section names that will be imported.
+     * @param importOptions Additional import option that specify what items will be imported.
+     */
+    selectSections(importOptions: ChummerImportOptions): string[] {
+        return this.selectParsers(importOptions).map(parser => parser.section);
+    }
+
+    /**
+     * Selects the section parsers depending on the sections that should be imported.
+     * @param importOptions Additional import option that specify what items will be imported.
+     */
+    selectParsers(importOptions: ChummerImportOptions): BaseSectionParser[] {
+        const parsers: [boolean, BaseSectionParser][] = [
+            [importOptions.qualities, new QualityParser()],
+            [importOptions.weapons, new WeaponParser()],
+            [importOptions.armor, new ArmorParser()],
+            [importOptions.cyberware, new CyberwareParser()],
+            [importOptions.powers, new PowerParser()],
+            [importOptions.powers, new MetamagicParser()],
+            [importOptions.equipment, new GearsParser()],
+            [importOptions.spells, new SpellParser()],
+            [importOptions.complexForms, new ComplexFormParser()],
+            [importOptions.critterPowers, new CritterPowerParser()],
+            [importOptions.martialArts, new MartialArtsParser()],
+            [importOptions.contacts, new ContactParser()],
+            [importOptions.lifestyles, new LifestyleParser()],
+        ];
+
+        return parsers
+            .filter(([selected]) => selected)
+            .map(([, parser]) => parser);
+    }
+}
@@ -1,30 +1,19 @@
-import { parseDescription, getArray, createItemData } from "./BaseParserFunctions.js"
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
 import {SR5} from "../../config"
+import {BaseSectionParser} from "./BaseSectionParser";
 
-export class LifestyleParser {
-    parseLifestyles(chummerChar) {
-        
-        const chummerLifestyle = getArray(chummerChar.lifestyles.lifestyle);
-        const parsedLifestyle = [];
+export class LifestyleParser extends BaseSectionParser {
+    readonly section = 'Lifestyles';
 
-        chummerLifestyle.forEach((chummerLifestyle) => {
-            try {
-                const itemData = this.parseLifestyle(chummerLifestyle);
-                parsedLifestyle.push(itemData);
-            }
-             catch (e) {
-                console.error(e);
-            }
-        });
-
-        return parsedLifestyle;
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.lifestyles?.lifestyle);
     }
 
-    parseLifestyle(chummerLifestyle) {
-        const data = {};
+    parseEntry(chummerLifestyle: any): any {
+        const data: any = {};
 
         // Advanced lifestyles and lifestyle qualities are not supported at the moment
-        // Map the chummer lifestyle type to our sr5 foundry type. 
+        // Map the chummer lifestyle type to our sr5 foundry type.
         const chummerLifestyleType = chummerLifestyle.baselifestyle.toLowerCase();
         if ((chummerLifestyleType in SR5.lifestyleTypes)) {
             data.type = chummerLifestyleType;
@@ -48,4 +37,4 @@ export class LifestyleParser {
         const itemData = createItemData(itemName, 'lifestyle', data);
         return itemData;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
+import {DefaultValues} from "../../data/DataDefaults";
+import {BaseSectionParser} from "./BaseSectionParser";
+
+/**
+ * Martial arts styles are imported as positive qualities listing their learned techniques, as there is no martial
+ * art support in the system.
+ */
+export class MartialArtsParser extends BaseSectionParser {
+    readonly section = 'Martial Arts';
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.martialarts?.martialart);
+    }
+
+    parseEntry(chummerMartialArt: any): any {
+        const data = DefaultValues.qualityData();
+        data.type = 'positive';
+        data.description = parseDescription(chummerMartialArt);
+
+        const techniques = getArray(chummerMartialArt.martialarttechniques?.martialarttechnique).map(technique => technique.name);
+        if (techniques.length > 0) {
+            data.description.value = `<p>${techniques.join(', ')}</p>${data.description.value}`;
+        }
+
+        return createItemData(chummerMartialArt.name, 'quality', data);
+    }
+}
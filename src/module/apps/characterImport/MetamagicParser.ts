@@ -0,0 +1,67 @@
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+import {ImportReport} from "./ImportReport";
+import {SR5} from "../../config";
+import MatrixAttribute = Shadowrun.MatrixAttribute;
+import MetamagicType = Shadowrun.MetamagicType;
+
+/**
+ * Chummer lists both metamagics and technomancer echoes as metamagics.
+ *
+ * Echoes are imported as echo items and metamagics as metamagic items.
+ */
+export class MetamagicParser extends BaseSectionParser {
+    readonly section = 'Metamagics';
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.metamagics?.metamagic);
+    }
+
+    parseEntry(chummerMetamagic: any, report: ImportReport): any {
+        const name = String(chummerMetamagic.name);
+        if (chummerMetamagic.improvementsource !== 'Echo') {
+            return this.parseMetamagic(name, chummerMetamagic);
+        }
+
+        const attribute = this.parseEchoAttribute(name);
+
+        const data: any = {};
+        data.description = parseDescription(chummerMetamagic);
+        data.attribute = attribute;
+        data.bonus = attribute ? 1 : 0;
+        data.initiative_dice = name.toLowerCase().startsWith('overclocking') ? 1 : 0;
+
+        return createItemData(name, 'echo', data);
+    }
+
+    /**
+     * Attribute upgrade echoes are named after the living persona attribute they raise.
+     * @param name The chummer echo name.
+     */
+    parseEchoAttribute(name: string): MatrixAttribute | '' {
+        const lower = name.toLowerCase();
+        if (!lower.includes('upgrade')) return '';
+        if (lower.startsWith('attack')) return 'attack';
+        if (lower.startsWith('sleaze')) return 'sleaze';
+        if (lower.startsWith('data processing')) return 'data_processing';
+        if (lower.startsWith('firewall')) return 'firewall';
+        return '';
+    }
+
+    parseMetamagic(name: string, chummerMetamagic: any): any {
+        const data: any = {};
+        data.description = parseDescription(chummerMetamagic);
+        data.type = this.parseMetamagicType(name);
+
+        return createItemData(name, 'metamagic', data);
+    }
+
+    /**
+     * Chummer metamagic names match the system metamagic types, apart from casing and spaces.
+     * @param name The chummer metamagic name.
+     */
+    parseMetamagicType(name: string): MetamagicType | '' {
+        const type = name.toLowerCase().trim().replace(/\s+/g, '_');
+        return type in SR5.metamagicTypes ? type as MetamagicType : '';
+    }
+}
@@ -0,0 +1,21 @@
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+
+export class PowerParser extends BaseSectionParser {
+    readonly section = 'Powers';
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.powers?.power);
+    }
+
+    parseEntry(chummerPower: any): any {
+        const data: any = {};
+        data.description = parseDescription(chummerPower);
+
+        // Powers without levels have no rating.
+        data.level = parseInt(chummerPower.rating) || 0;
+        data.pp = parseFloat(chummerPower.totalpoints) || 0;
+        const itemData = createItemData(chummerPower.fullname || chummerPower.name, 'adept_power', data);
+        return itemData;
+    }
+}
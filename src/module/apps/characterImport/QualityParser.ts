@@ -0,0 +1,20 @@
+import {parseDescription, getArray, createItemData} from "./BaseParserFunctions"
+import {DefaultValues} from "../../data/DataDefaults";
+import {BaseSectionParser} from "./BaseSectionParser";
+
+export class QualityParser extends BaseSectionParser {
+    readonly section = 'Qualities';
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.qualities?.quality);
+    }
+
+    parseEntry(chummerQuality: any): any {
+        const data = DefaultValues.qualityData();
+        data.type = chummerQuality.qualitytype.toLowerCase();
+        data.description = parseDescription(chummerQuality);
+
+        const itemData = createItemData(chummerQuality.name, 'quality', data);
+        return itemData;
+    }
+}
@@ -1,27 +1,23 @@
-import { parseDescription, getArray, createItemData } from "./BaseParserFunctions.js"
-import { DefaultValues } from "../../data/DataDefaults";
+import {parseDescription, getArray, createItemData, isTrue} from "./BaseParserFunctions"
+import {DefaultValues} from "../../data/DataDefaults";
+import {BaseSectionParser} from "./BaseSectionParser";
+import {ImportReport} from "./ImportReport";
 
-export class SpellParser {
-    parseSpells(chummerChar) {
-        const spells = getArray(chummerChar.spells.spell);
-        const parsedSpells = [];
-        spells.forEach((chummerSpell) => {
-            try {
-                if (chummerSpell.alchemy.toLowerCase() !== 'true') {
-                    const itemData = this.parseSpell(chummerSpell);
-                    parsedSpells.push(itemData);
-                }
-            } catch (e) {
-                console.error(e);
-            }
-        });
+export class SpellParser extends BaseSectionParser {
+    readonly section = 'Spells';
 
-        return parsedSpells;
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.spells?.spell);
     }
 
-    parseSpell(chummerSpell) {
-        const action = {};
-        const data = {};
+    parseEntry(chummerSpell: any, report: ImportReport): any {
+        if (isTrue(chummerSpell.alchemy)) {
+            report.addUnmapped(this.section, chummerSpell.name, 'Alchemical preparations are not imported');
+            return;
+        }
+
+        const action: any = {};
+        const data: any = {};
         data.action = action;
         data.category = chummerSpell.category.toLowerCase().replace(/\s/g, '_');
         data.name = chummerSpell.name;
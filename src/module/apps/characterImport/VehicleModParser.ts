@@ -0,0 +1,21 @@
+import {parseDescription, getArray, parseTechnology, createItemData} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+
+/**
+ * Vehicle modifications are imported as equipment of the vehicle, as modification items only apply to weapons and armor.
+ */
+export class VehicleModParser extends BaseSectionParser {
+    readonly section = 'Vehicle Mods';
+
+    getEntries(chummerVehicle: any): any[] {
+        return getArray(chummerVehicle.mods?.mod);
+    }
+
+    parseEntry(chummerMod: any): any {
+        const data: any = {};
+        data.description = parseDescription(chummerMod);
+        data.technology = parseTechnology(chummerMod);
+
+        return createItemData(chummerMod.name, 'equipment', data);
+    }
+}
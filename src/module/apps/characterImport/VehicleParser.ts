@@ -0,0 +1,125 @@
+import {getArray, getValues, isTrue} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+import {ImportReport} from "./ImportReport";
+import {WeaponParser} from "./WeaponParser";
+import {VehicleModParser} from "./VehicleModParser";
+import {GearsParser} from "./gearImport/GearsParser";
+import VehicleTypes = Shadowrun.VehicleTypes;
+
+/**
+ * Vehicles and drones are actors within the system. Each owned vehicle will be parsed into vehicle actor data,
+ * including its own items (mounted weapons, gear, autosofts and mods).
+ */
+export class VehicleParser extends BaseSectionParser {
+    readonly section = 'Vehicles';
+
+    /**
+     * The sections of a vehicle that will be imported as items of the vehicle actor.
+     */
+    readonly itemSections = ['Weapons', 'Gear', 'Vehicle Mods'];
+
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.vehicles?.vehicle);
+    }
+
+    parseEntry(chummerVehicle: any, report: ImportReport): any {
+        const [handling, offRoadHandling] = this.parseOnOffRoad(chummerVehicle.handling);
+        const [speed, offRoadSpeed] = this.parseOnOffRoad(chummerVehicle.speed);
+        const [acceleration] = this.parseOnOffRoad(chummerVehicle.accel);
+
+        const data: any = {
+            vehicleType: this.parseVehicleType(chummerVehicle.category),
+            model: chummerVehicle.name,
+            isDrone: this.parseIsDrone(chummerVehicle),
+            attributes: {
+                body: {base: this.parseNumber(chummerVehicle.body)}
+            },
+            armor: {
+                base: this.parseNumber(chummerVehicle.armor)
+            },
+            matrix: {
+                rating: {base: this.parseNumber(chummerVehicle.devicerating)}
+            },
+            vehicle_stats: {
+                pilot: {base: this.parseNumber(chummerVehicle.pilot)},
+                handling: {base: handling},
+                off_road_handling: {base: offRoadHandling},
+                speed: {base: speed},
+                off_road_speed: {base: offRoadSpeed},
+                acceleration: {base: acceleration},
+                sensor: {base: this.parseNumber(chummerVehicle.sensor)}
+            }
+        };
+
+        return {
+            name: chummerVehicle.name,
+            type: 'vehicle',
+            data,
+            items: this.parseItems(chummerVehicle, report),
+            flags: {}
+        };
+    }
+
+    /**
+     * Parse the items of a vehicle with the same parsers used for the character itself.
+     * @param chummerVehicle The chummer vehicle holding the items.
+     * @param report The report to add entries to that can't be mapped.
+     */
+    parseItems(chummerVehicle: any, report: ImportReport): any[] {
+        const weapons = {weapons: {weapon: this.getMountedWeapons(chummerVehicle)}};
+
+        return [
+            ...new WeaponParser().parse(weapons, report),
+            ...new GearsParser().parse(chummerVehicle, report),
+            ...new VehicleModParser().parse(chummerVehicle, report)
+        ];
+    }
+
+    /**
+     * Weapons can be attached to a vehicle directly, to a weapon mount or to a vehicle mod.
+     * @param chummerVehicle The chummer vehicle holding the weapons.
+     */
+    getMountedWeapons(chummerVehicle: any): any[] {
+        const weapons = getArray(chummerVehicle.weapons?.weapon);
+
+        getArray(chummerVehicle.weaponmounts?.weaponmount).forEach(mount => {
+            weapons.push(...getArray(mount.weapons?.weapon));
+        });
+        getArray(chummerVehicle.mods?.mod).forEach(mod => {
+            weapons.push(...getArray(mod.weapons?.weapon));
+        });
+
+        return weapons;
+    }
+
+    /**
+     * Chummer stores on and off road values of a stat as 'on/off', or a single value for both.
+     * @param value A chummer vehicle stat value.
+     * @return The on road and off road value.
+     */
+    parseOnOffRoad(value: any): [number, number] {
+        const [onRoad, offRoad] = getValues(value).map(value => parseInt(value));
+        return [onRoad, offRoad ?? onRoad];
+    }
+
+    parseNumber(value: any): number {
+        return parseInt(getValues(value)[0]);
+    }
+
+    parseIsDrone(chummerVehicle: any): boolean {
+        return isTrue(chummerVehicle.isdrone) || String(chummerVehicle.category).startsWith('Drones');
+    }
+
+    /**
+     * Chummer vehicle categories only hint at the vehicle type, defaulting to ground vehicles.
+     * @param category The chummer vehicle category.
+     */
+    parseVehicleType(category: any): VehicleTypes {
+        const lower = String(category).toLowerCase();
+
+        if (lower.includes('boat') || lower.includes('submarine')) return 'water';
+        if (lower.includes('aircraft') || lower.includes('rotorcraft') || lower.includes('vtol') || lower.includes('ltav')) return 'air';
+        if (lower.includes('walker') || lower.includes('anthro')) return 'walker';
+        return 'ground';
+    }
+}
@@ -1,7 +1,11 @@
-import { parseDescription, getArray, getValues, parseTechnology, createItemData } from "./BaseParserFunctions.js"
+import {parseDescription, getArray, getValues, parseTechnology, createItemData} from "./BaseParserFunctions"
+import {BaseSectionParser} from "./BaseSectionParser";
+import {ImportReport} from "./ImportReport";
 
-export class WeaponParser {
-    parseDamage = (val) => {
+export class WeaponParser extends BaseSectionParser {
+    readonly section = 'Weapons';
+
+    parseDamage = (val: string) => {
         const damage = {
             damage: 0,
             type: 'physical',
@@ -24,26 +28,14 @@ export class WeaponParser {
         return damage;
     };
 
-    parseWeapons(chummerChar) {
-        const weapons = getArray(chummerChar.weapons.weapon);
-        const parsedWeapons = [];
-
-        weapons.forEach((chummerWeapon) => {
-            try {
-                const itemData = this.parseWeapon(chummerWeapon);
-                parsedWeapons.push(itemData);
-            } catch (e) {
-                console.error(e);
-            }
-        });
-    
-        return parsedWeapons;
+    getEntries(chummerChar: any): any[] {
+        return getArray(chummerChar.weapons?.weapon);
     }
 
-    parseWeapon(chummerWeapon) {
-        const data = {};
-        const action = {};
-        const damage = {};
+    parseEntry(chummerWeapon: any, report: ImportReport): any {
+        const data: any = {};
+        const action: any = {};
+        const damage: any = {};
         action.damage = damage;
         data.action = action;
 
@@ -61,7 +53,7 @@ export class WeaponParser {
                 .toLowerCase()
                 .replace(' weapons', '')
                 .replace(/\s/g, '_');
-        if (action.skill.includes('exotic'))
+        if (action.skill?.includes('exotic'))
             action.skill = action.skill.replace('_weapon', '');
         action.attribute = 'agility';
         action.limit = {
@@ -74,15 +66,15 @@ export class WeaponParser {
         if (chummerWeapon.type.toLowerCase() === 'melee') {
             action.type = 'complex';
             data.category = 'melee';
-            const melee = {};
+            const melee: any = {};
             data.melee = melee;
             melee.reach = parseInt(chummerWeapon.reach);
         } else if (chummerWeapon.type.toLowerCase() === 'ranged') {
             data.category = 'range';
-            if (chummerWeapon.skill.toLowerCase().includes('throw')) {
+            if (chummerWeapon.skill?.toLowerCase().includes('throw')) {
                 data.category = 'thrown'; // TODO clean this up
             }
-            const range = {};
+            const range: any = {};
             data.range = range;
             range.rc = {
                 base: parseInt(getValues(chummerWeapon.rc)[0]),
@@ -97,21 +89,17 @@ export class WeaponParser {
                     full_auto: lower.includes('fa'),
                 };
             }
-            if (chummerWeapon.clips != null && chummerWeapon.clips.clip != null) {
-                // HeroLab export doesn't have clips
-                const clips = Array.isArray(chummerWeapon.clips.clip)
-                    ? chummerWeapon.clips.clip
-                    : [chummerWeapon.clips.clip];
-                clips.forEach((clip) => {
-                    console.log(clip);
-                });
+            if (chummerWeapon.ammo) {
+                const ammo = parseInt(getValues(chummerWeapon.ammo)[0]);
+                data.ammo = {
+                    current: {value: ammo, max: ammo}
+                };
             }
             if (chummerWeapon.ranges &&
                 chummerWeapon.ranges.short &&
                 chummerWeapon.ranges.medium &&
                 chummerWeapon.ranges.long &&
                 chummerWeapon.ranges.extreme) {
-                console.log(chummerWeapon.ranges);
                 range.ranges = {
                     short: parseInt(chummerWeapon.ranges.short.split('-')[1]),
                     medium: parseInt(chummerWeapon.ranges.medium.split('-')[1]),
@@ -119,18 +107,6 @@ export class WeaponParser {
                     extreme: parseInt(chummerWeapon.ranges.extreme.split('-')[1]),
                 };
             }
-            // TODO figure out how to add mods to weapons
-            // if (w.accessories && w.accessories.accessory) {
-            //     range.mods = [];
-            //     const accessories = getArray(w.accessories.accessory);
-            //     accessories.forEach((a) => {
-            //         if (a) {
-            //             range.mods.push({
-            //                 name: a.name,
-            //             });
-            //         }
-            //     });
-            // }
         } else if (chummerWeapon.type.toLowerCase() === 'thrown') {
             data.category = 'thrown';
         }
@@ -141,16 +117,22 @@ export class WeaponParser {
             damage.type = {};
             damage.type.base = d.type;
             if (d.dropoff || d.radius) {
-                const thrown = {};
+                const thrown: any = {};
                 data.thrown = thrown;
                 thrown.blast = {
                     radius: d.radius,
                     dropoff: d.dropoff,
                 };
+                thrown.scatter = chummerWeapon.name.toLowerCase().includes('aerodynamic') ? 'aerodynamic' : 'standard';
             }
         }
 
+        // TODO figure out how to add mods to weapons
+        getArray(chummerWeapon.accessories?.accessory).forEach((accessory) => {
+            report.addUnmapped(this.section, `${chummerWeapon.name}: ${accessory.name}`, 'Weapon accessories are not imported');
+        });
+
         const itemData = createItemData(chummerWeapon.name, 'weapon', data);
         return itemData;
     }
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { parseDescription, parseTechnology } from "../BaseParserFunctions.js"
+import { parseDescription, parseTechnology } from "../BaseParserFunctions"
 import EquipmentItemData = Shadowrun.EquipmentItemData;
 import {DefaultValues} from "../../../data/DataDefaults";
 
@@ -0,0 +1,30 @@
+import { BaseGearParser } from "./BaseGearParser"
+import { isTrue } from "../BaseParserFunctions";
+import FocusType = Shadowrun.FocusType;
+
+/**
+ * Parses foci, using their rating as Force.
+ */
+export class FocusParser extends BaseGearParser {
+    parse(chummerGear : any) : any {
+        const parsedGear =  super.parse(chummerGear);
+        parsedGear.type = 'focus';
+
+        parsedGear.data.type = this.parseFocusType(chummerGear);
+        parsedGear.data.force = Number(chummerGear.rating) || 1;
+        parsedGear.data.bonded = !!chummerGear.bonded && isTrue(chummerGear.bonded);
+        parsedGear.data.weapon = '';
+
+        return parsedGear;
+    }
+
+    /**
+     * Chummer only differentiates foci by their name, like 'Power Focus'.
+     */
+    parseFocusType(chummerGear : any) : FocusType | '' {
+        const name = String(chummerGear.name_english ?? chummerGear.name).toLowerCase();
+        const types: FocusType[] = ['banishing', 'binding', 'counterspelling', 'enchanting', 'metamagic', 'power', 'qi',
+            'spellcasting', 'summoning', 'sustaining', 'weapon'];
+        return types.find(type => name.startsWith(type as string)) ?? '';
+    }
+}
@@ -1,40 +1,46 @@
 import { ParserSelector } from "./ParserSelector";
+import { BaseSectionParser } from "../BaseSectionParser";
+import { getArray, getChildren } from "../BaseParserFunctions";
 
 /**
  * Parses all gear from a chummer character file and turns them into foundry sr item data objects
  */
-export class GearsParser {
+export class GearsParser extends BaseSectionParser {
+    readonly section = 'Gear';
 
     /**
-     * Parses all chummer gear entries
-     * @param chummerGears Array of chummer gear entries
+     * Gear can contain other gear (programs on commlinks, ammo in cases, ...), which will be imported as separate items.
      */
-    parseGears(chummerGears : any) : any {
-        let items : any[] = [];
+    getEntries(chummerChar: any): any[] {
+        return this.collectGears(getArray(chummerChar.gears?.gear));
+    }
+
+    parseEntry(chummerGear : any) : any {
+        // First filter out gear entries, that we do not want to handle.
+        if (!this.gearShouldBeParsed(chummerGear)) {
+            return;
+        }
+
+        const parserSelector = new ParserSelector();
+        const parser = parserSelector.select(chummerGear);
+        return parser.parse(chummerGear);
+    }
+
+    private collectGears(chummerGears : any[]) : any[] {
+        let gears : any[] = [];
 
         chummerGears.forEach((chummerGear) => {
-            try {
-                // First filter out gear entries, that we do not want to handle.
-                if (!this.gearShouldBeParsed(chummerGear)) {
-                    return;
-                }
-
-                const itemsData = this.parseGearEntry(chummerGear);
-                items.push(itemsData);
-            }
+            gears.push(chummerGear);
 
-            catch (e) {
-                console.error(e);
+            // Licenses are parsed as part of their SIN.
+            if (chummerGear.issin === 'True') {
+                return;
             }
-        });
 
-        return items;
-    }
+            gears = gears.concat(this.collectGears(getChildren(chummerGear, 'gear')));
+        });
 
-    private parseGearEntry(chummerGear : any) : any {
-        const parserSelector = new ParserSelector();
-        const parser = parserSelector.select(chummerGear);
-        return parser.parse(chummerGear);
+        return gears;
     }
 
     private gearShouldBeParsed(chummerGear : any) : boolean {
@@ -3,6 +3,7 @@ import { SinParser } from "./SinParser";
 import { DeviceParser } from "./DeviceParser";
 import { ProgramParser } from "./ProgramParser";
 import { AmmoParser } from "./AmmoParser";
+import { FocusParser } from "./FocusParser";
 
 /**
  * Responsible for selecting the correct GearParser depending on the gear.
@@ -32,11 +33,18 @@ export class ParserSelector {
 
         if (chummerGear.category === 'Common Programs' || 
             chummerGear.category === 'Hacking Programs' || 
-            chummerGear.category === 'Software')
+            chummerGear.category === 'Software' ||
+            chummerGear.category === 'Autosofts')
         {
             return new ProgramParser();
         }
 
+        if (chummerGear.category === 'Foci' ||
+            chummerGear.category === 'Metamagic Foci')
+        {
+            return new FocusParser();
+        }
+
         return new BaseGearParser();
     }
 }
\ No newline at end of file
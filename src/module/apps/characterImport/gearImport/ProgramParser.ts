@@ -1,7 +1,8 @@
 import { BaseGearParser } from "./BaseGearParser"
+import AutosoftTypes = Shadowrun.AutosoftTypes;
 
 /**
- * Parses common, hacking and agent programs.
+ * Parses common, hacking and agent programs and autosofts.
  */
 export class ProgramParser extends BaseGearParser {
     parse(chummerGear : any) : any {
@@ -20,7 +21,24 @@ export class ProgramParser extends BaseGearParser {
         {
             parsedGear.data.type = 'agent'
         }
+        else if (chummerGear.category === 'Autosofts')
+        {
+            parsedGear.data.type = 'autosoft';
+            parsedGear.data.autosoft = {
+                type: this.parseAutosoftType(chummerGear),
+                target: chummerGear.extra ?? ''
+            };
+        }
 
         return parsedGear;
     }
+
+    /**
+     * Chummer only differentiates autosofts by their name, like 'Targeting Autosoft'.
+     */
+    parseAutosoftType(chummerGear : any) : AutosoftTypes {
+        const name = String(chummerGear.name_english).toLowerCase();
+        const types: AutosoftTypes[] = ['clearsight', 'evasion', 'maneuvering', 'stealth', 'targeting'];
+        return types.find(type => name.includes(type)) ?? 'clearsight';
+    }
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+import {CharacterImporter} from "./characterImport/CharacterImporter"
+import {ImportReport} from "./characterImport/ImportReport";
+import {SR5Actor} from "../actor/SR5Actor";
+import ChummerImportOptions = Shadowrun.ChummerImportOptions;
+
+export class ChummerImportForm extends FormApplication {
+    static get defaultOptions() {
+        const options = super.defaultOptions;
+        options.id = 'chummer-import';
+        options.classes = ['shadowrun5e'];
+        options.title = 'Chummer/Hero Lab Import';
+        options.template = 'systems/shadowrun5e/dist/templates/apps/import.html';
+        options.width = 600;
+        options.height = 'auto';
+        return options;
+    }
+
+    getData() {
+        return {} as FormApplication.Data<{}>;
+    }
+
+    activateListeners(html) {
+        html.find('.submit-chummer-import').click(async (event) => {
+            event.preventDefault();
+
+            const chummerFile = JSON.parse(String($('.chummer-text').val()));
+            const importOptions: ChummerImportOptions = {
+                weapons: $('.weapons').is(':checked'),
+                armor: $('.armor').is(':checked'),
+                cyberware: $('.cyberware').is(':checked'),
+                equipment: $('.gear').is(':checked'),
+                qualities: $('.qualities').is(':checked'),
+                powers: $('.powers').is(':checked'),
+                spells: $('.spells').is(':checked'),
+                complexForms: $('.complex-forms').is(':checked'),
+                critterPowers: $('.critter-powers').is(':checked'),
+                martialArts: $('.martial-arts').is(':checked'),
+                contacts: $('.contacts').is(':checked'),
+                lifestyles: $('.lifestyles').is(':checked'),
+                vehicles: $('.vehicles').is(':checked'),
+            }
+
+            const importer = new CharacterImporter();
+            const report = await importer.importChummerCharacter(this.object as SR5Actor, chummerFile, importOptions);
+            // The import has been canceled during preview.
+            if (!report) return;
+
+            ui.notifications?.info(
+                'Complete! Check everything. Notably: Ranged weapon mods and ammo; Strength based weapon damage; Specializations on all spells, powers, and weapons;'
+            );
+            await ChummerImportForm.showReport(report);
+
+            this.close();
+        });
+    }
+
+    /**
+     * Inform the user about everything that has been imported and, more importantly, what couldn't be.
+     */
+    static async showReport(report: ImportReport) {
+        const template = 'systems/shadowrun5e/dist/templates/apps/dialogs/chummer-import-report.html';
+        const content = await renderTemplate(template, {report, hasUnmapped: report.hasUnmapped});
+
+        new Dialog({
+            title: game.i18n.localize('SR5.ChummerImportReport.Title'),
+            content,
+            buttons: {
+                ok: {
+                    label: game.i18n.localize('SR5.ChummerImportReport.Ok')
+                }
+            },
+            default: 'ok'
+        }).render(true);
+    }
+
+    async _updateObject(event, formData) {}
+}
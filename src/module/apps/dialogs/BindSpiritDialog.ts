@@ -0,0 +1,49 @@
+import {FormDialog, FormDialogData} from "./FormDialog";
+import {MagicRules} from "../../rules/MagicRules";
+
+/**
+ * Confirm the reagent cost of binding a spirit.
+ */
+export class BindSpiritDialog extends FormDialog {
+
+    constructor(force: number, available: number, options?: Application.Options) {
+        const dialogData = BindSpiritDialog.getDialogData(force, available);
+        super(dialogData, options);
+    }
+
+    static get defaultOptions() {
+        const options = super.defaultOptions;
+        options.id = 'bind-spirit';
+        options.classes = ['sr5', 'form-dialog'];
+        options.height = 'auto';
+        return options;
+    }
+
+    static getDialogData(force: number, available: number): FormDialogData {
+        const title = game.i18n.localize('SR5.Spirit.Bind');
+        const templatePath = 'systems/shadowrun5e/dist/templates/apps/dialogs/bind-spirit.html';
+
+        const templateData = {
+            force,
+            reagents: MagicRules.bindingReagents(force),
+            available
+        };
+
+        const buttons = {
+            bind: {
+                label: game.i18n.localize('SR5.Spirit.Bind')
+            },
+            cancel: {
+                label: game.i18n.localize('SR5.Spirit.Cancel')
+            }
+        };
+
+        return {
+            title,
+            templatePath,
+            templateData,
+            buttons,
+            default: 'bind'
+        };
+    }
+}
@@ -0,0 +1,64 @@
+import {FormDialog, FormDialogData} from "./FormDialog";
+import ChummerImportItemChanges = Shadowrun.ChummerImportItemChanges;
+import ChummerImportVehicleChange = Shadowrun.ChummerImportVehicleChange;
+import ChummerImportRemovedVehicle = Shadowrun.ChummerImportRemovedVehicle;
+
+/**
+ * Preview all item and vehicle changes of a character import before anything is written.
+ */
+export class ChummerImportPreviewDialog extends FormDialog {
+    constructor(changes: ChummerImportItemChanges, vehicles: ChummerImportVehicleChange[], removedVehicles: ChummerImportRemovedVehicle[], options?: Application.Options) {
+        const dialogData = ChummerImportPreviewDialog.getDialogData(changes, vehicles, removedVehicles);
+        super(dialogData, options);
+    }
+
+    static get defaultOptions() {
+        const options = super.defaultOptions;
+        options.id = 'chummer-import-preview';
+        // Class Dialog here is needed for dialog button styling.
+        options.classes = ['sr5', 'form-dialog'];
+        options.resizable = true;
+        options.height = 'auto';
+        return options;
+    }
+
+    static getDialogData(changes: ChummerImportItemChanges, vehicles: ChummerImportVehicleChange[], removedVehicles: ChummerImportRemovedVehicle[]): FormDialogData {
+        const title = game.i18n.localize('SR5.ChummerImportPreview.Title');
+        const templatePath = 'systems/shadowrun5e/dist/templates/apps/dialogs/chummer-import-preview.html';
+        const templateData = {
+            changes,
+            vehicles,
+            removedVehicles,
+            hasRemoved: changes.remove.length > 0 || removedVehicles.length > 0 || vehicles.some(vehicle => vehicle.items.remove.length > 0)
+        };
+
+        const buttons = {
+            import: {
+                label: game.i18n.localize('SR5.ChummerImportPreview.Import')
+            },
+            cancel: {
+                label: game.i18n.localize('SR5.ChummerImportPreview.Cancel')
+            }
+        };
+
+        const onAfterClose = (html, selectedButton) => {
+            const deleteRemoved = $(html).find('[name=deleteRemoved]').is(':checked');
+            return {deleteRemoved};
+        };
+
+        return {
+            title,
+            templatePath,
+            templateData,
+            onAfterClose,
+            buttons,
+            default: 'import'
+        }
+    }
+
+    /** Only the import button confirms the import.
+     */
+    get canceled(): boolean {
+        return this.selectedButton !== 'import';
+    }
+}
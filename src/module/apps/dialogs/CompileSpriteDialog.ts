@@ -0,0 +1,58 @@
+import {FormDialog, FormDialogData} from "./FormDialog";
+import {SR5} from "../../config";
+import SpriteType = Shadowrun.SpriteType;
+
+export interface CompileSpriteData {
+    spriteType: SpriteType;
+    level: number;
+}
+
+/**
+ * Select type and level of the sprite a technomancer is about to compile.
+ */
+export class CompileSpriteDialog extends FormDialog {
+
+    constructor(level: number, options?: Application.Options) {
+        const dialogData = CompileSpriteDialog.getDialogData(level);
+        super(dialogData, options);
+    }
+
+    static get defaultOptions() {
+        const options = super.defaultOptions;
+        options.id = 'compile-sprite';
+        options.classes = ['sr5', 'form-dialog'];
+        options.height = 'auto';
+        return options;
+    }
+
+    static getDialogData(level: number): FormDialogData {
+        const title = game.i18n.localize('SR5.Sprite.Compile');
+        const templatePath = 'systems/shadowrun5e/dist/templates/apps/dialogs/compile-sprite.html';
+
+        const templateData = {
+            level,
+            spriteTypes: SR5.spriteTypes
+        };
+
+        const buttons = {
+            compile: {
+                label: game.i18n.localize('SR5.Sprite.Compile')
+            }
+        };
+
+        const onAfterClose = (html: JQuery): CompileSpriteData => {
+            const spriteType = $(html).find('[name=spriteType]').val() as SpriteType;
+            const level = Number($(html).find('[name=level]').val());
+            return {spriteType, level};
+        };
+
+        return {
+            title,
+            templatePath,
+            templateData,
+            onAfterClose,
+            buttons,
+            default: 'compile'
+        };
+    }
+}
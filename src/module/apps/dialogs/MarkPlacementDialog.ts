@@ -0,0 +1,55 @@
+import {FormDialog, FormDialogData} from "./FormDialog";
+import {SR5Actor} from "../../actor/SR5Actor";
+import {SR5Item} from "../../item/SR5Item";
+
+/**
+ * Select the icon of a target to place marks on, its persona or one of its matrix devices.
+ */
+export class MarkPlacementDialog extends FormDialog {
+
+    constructor(target: SR5Actor, marks: number, options?: Application.Options) {
+        const dialogData = MarkPlacementDialog.getDialogData(target, marks);
+        super(dialogData, options);
+    }
+
+    static get defaultOptions() {
+        const options = super.defaultOptions;
+        options.id = 'mark-placement';
+        options.classes = ['sr5', 'form-dialog'];
+        options.height = 'auto';
+        return options;
+    }
+
+    static getDialogData(target: SR5Actor, marks: number): FormDialogData {
+        const title = game.i18n.localize('SR5.Marks.PlaceOn');
+        const templatePath = 'systems/shadowrun5e/dist/templates/apps/dialogs/mark-placement.html';
+
+        const devices = target.items.filter(item => item.isDevice()) as SR5Item[];
+        const icons = [target, ...devices];
+
+        const templateData = {
+            marks,
+            icons: icons.map((icon, index) => ({index, name: icon.name, img: icon.img}))
+        };
+
+        const buttons = {
+            place: {
+                label: game.i18n.localize('SR5.Marks.Place')
+            }
+        };
+
+        const onAfterClose = (html: JQuery): SR5Actor|SR5Item|undefined => {
+            const index = Number($(html).find('[name=icon]').val());
+            return icons[index];
+        };
+
+        return {
+            title,
+            templatePath,
+            templateData,
+            onAfterClose,
+            buttons,
+            default: 'place'
+        };
+    }
+}
@@ -10,6 +10,7 @@ import SkillDialogOptions = Shadowrun.SkillDialogOptions;
 import CombatData = Shadowrun.CombatData;
 import DamageType = Shadowrun.DamageType;
 import {SR5} from "../../config";
+import {SR} from "../../constants";
 
 export class ShadowrunActorDialogs {
     static async createDefenseDialog(actor: SR5Actor, options: DefenseRollOptions, partsProps: ModList<number>): Promise<FormDialog> {
@@ -36,17 +37,17 @@ export class ShadowrunActorDialogs {
             full_defense: {
                 label: 'SR5.FullDefense',
                 value: actor.getFullDefenseAttribute()?.value,
-                initMod: -10,
+                interrupt: 'full_defense',
             },
             dodge: {
                 label: 'SR5.Dodge',
                 value: actor.findActiveSkill('gymnastics')?.value,
-                initMod: -5,
+                interrupt: 'dodge',
             },
             block: {
                 label: 'SR5.Block',
                 value: actor.findActiveSkill('unarmed_combat')?.value,
-                initMod: -5,
+                interrupt: 'block',
             },
         };
 
@@ -57,7 +58,7 @@ export class ShadowrunActorDialogs {
                 label: 'SR5.Parry',
                 weapon: weapon.name,
                 value: actor.findActiveSkill(weapon.getActionSkill())?.value,
-                init: -5,
+                interrupt: 'parry',
             };
             defenseReach = Math.max(defenseReach, weapon.getReach());
         });
@@ -65,6 +66,18 @@ export class ShadowrunActorDialogs {
         const parts = new PartsList(partsProps);
         actor._addDefenseParts(parts);
 
+        // Full defense declared earlier applies to all defenses until the next action phase.
+        if (actor.hasFullDefense()) {
+            parts.addUniquePart('SR5.FullDefense', Number(actor.getFullDefenseAttribute()?.value));
+            delete activeDefenses.full_defense;
+        }
+
+        // Interrupt actions can't be taken without enough initiative score left.
+        Object.values(activeDefenses).forEach((defense: any) => {
+            defense.initMod = SR.combat.interrupt_actions[defense.interrupt];
+            defense.disabled = !actor.canUseInterruptAction(defense.interrupt);
+        });
+
         // if we are defending a melee attack
         if (options.attack?.reach) {
             const incomingReach = options.attack.reach;
@@ -97,6 +110,7 @@ export class ShadowrunActorDialogs {
 
                 // Combat initiative modifier
                 combat.initiative = defense.initMod;
+                combat.interrupt = defense.interrupt;
             }
 
             return {cover, special, parts, combat};
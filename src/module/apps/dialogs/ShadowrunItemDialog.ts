@@ -8,6 +8,9 @@ import RangeData = Shadowrun.RangeData;
 import {FormDialog} from "./FormDialog";
 import WeaponData = Shadowrun.WeaponData;
 import {SR5} from "../../config";
+import {MagicRules} from "../../rules/MagicRules";
+import SpellData = Shadowrun.SpellData;
+import ObjectResistance = Shadowrun.ObjectResistance;
 
 type ItemDialogData = {
     dialogData: Dialog.Data | undefined,
@@ -25,16 +28,23 @@ export type RangedWeaponActionTestData = {
 export type SpellActionTestData = {
     force: number,
     reckless: boolean,
+    // Non-living targets resist detection and manipulation spells with a threshold.
+    objectResistance?: ObjectResistance | '',
 }
 
 export type ComplexFormTestData = {
     level: number
 }
 
+export type MarkPlacementTestData = {
+    marks: number
+}
+
 export type ActionTestData = {
     rangedWeapon?: RangedWeaponActionTestData,
     spell?: SpellActionTestData,
     complexForm?: ComplexFormTestData,
+    marks?: MarkPlacementTestData,
     targetId?: string
 }
 
@@ -53,6 +63,10 @@ export class ShadowrunItemDialog {
         if (item.isComplexForm()) {
             return ShadowrunItemDialog.createComplexFormDialog(item, event);
         }
+
+        if (item.placesMarks()) {
+            return ShadowrunItemDialog.createMarkPlacementDialog(item, event);
+        }
     }
 
     static async createRangedWeaponDialog(item: SR5Item, event?: MouseEvent): Promise<FormDialog> {
@@ -117,6 +131,44 @@ export class ShadowrunItemDialog {
         return new FormDialog(dialogData);
     }
 
+    static async createMarkPlacementDialog(item: SR5Item, event?: MouseEvent): Promise<FormDialog> {
+        const dialogData = {title: item.name,
+                            event,
+        } as unknown as Dialog.Data;
+
+        const templatePath = 'systems/shadowrun5e/dist/templates/rolls/roll-marks.html';
+        const templateData = {};
+        const onAfterClose = ShadowrunItemDialog.addMarkPlacementData(templateData, dialogData);
+
+        dialogData['templateData'] = templateData;
+        dialogData['templatePath'] = templatePath;
+        dialogData['onAfterClose'] = onAfterClose;
+
+        //@ts-ignore
+        return new FormDialog(dialogData);
+    }
+
+    static addMarkPlacementData(templateData: object, dialogData: Dialog.Data): Function {
+        templateData['marks'] = 1;
+        templateData['options'] = SR.matrix.mark_placement_modifiers;
+
+        let cancel = true;
+        dialogData.buttons = {
+            roll: {
+                label: 'Continue',
+                icon: '<i class="fas fa-dice-six"></i>',
+                callback: () => (cancel = false),
+            },
+        };
+
+        return async (html: JQuery): Promise<ActionTestData|undefined> => {
+            if (cancel) return;
+
+            const marks = Helpers.parseInputToNumber($(html).find('[name=marks]').val());
+            return {marks: {marks}};
+        };
+    }
+
     static addComplexFormData(templateData: object, dialogData: Dialog.Data, item: SR5Item): Function {
         const fade = item.getFade();
         const title = `${Helpers.label(item.name)} Level`;
@@ -164,6 +216,8 @@ export class ShadowrunItemDialog {
         templateData['drain'] = drain >= 0 ? `+${drain}` : `${drain}`;
         templateData['force'] = force;
         templateData['title'] = title;
+        templateData['usesObjectResistance'] = MagicRules.usesObjectResistance(item.data.data as SpellData);
+        templateData['objectResistances'] = SR5.objectResistances;
 
         dialogData.title = title;
         let cancel = true;
@@ -190,6 +244,7 @@ export class ShadowrunItemDialog {
 
             mergeObject(actionTestData, ShadowrunItemDialog._getSelectedSpellForce(html));
             mergeObject(actionTestData, ShadowrunItemDialog._getSelectedSpellReckless(reckless));
+            mergeObject(actionTestData, ShadowrunItemDialog._getSelectedObjectResistance(html));
 
             await item.setLastSpellForce({value: actionTestData.force, reckless: actionTestData.reckless});
 
@@ -206,6 +261,11 @@ export class ShadowrunItemDialog {
         return {reckless}
     }
 
+    static _getSelectedObjectResistance(html: JQuery): object {
+        const objectResistance = $(html).find('[name=objectResistance]').val() ?? '';
+        return {objectResistance}
+    }
+
     static addRangedWeaponData(templateData: object, dialogData: Dialog.Data, item: SR5Item): Function {
         let title = dialogData.title || item.name;
 
@@ -238,6 +298,7 @@ export class ShadowrunItemDialog {
         templateData['fireModes'] = fireModes;
         templateData['fireMode'] = fireMode?.value;
         templateData['rc'] = rc;
+        templateData['accumulatedRecoil'] = item.actor.getAccumulatedRecoil();
         templateData['ammo'] = ammo;
         templateData['title'] = title;
         templateData['ranges'] = templateRanges;
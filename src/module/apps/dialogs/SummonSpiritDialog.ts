@@ -0,0 +1,58 @@
+import {FormDialog, FormDialogData} from "./FormDialog";
+import {SR5} from "../../config";
+import SpiritType = Shadowrun.SpiritType;
+
+export interface SummonSpiritData {
+    spiritType: SpiritType;
+    force: number;
+}
+
+/**
+ * Select type and Force of the spirit a magician is about to summon.
+ */
+export class SummonSpiritDialog extends FormDialog {
+
+    constructor(force: number, options?: Application.Options) {
+        const dialogData = SummonSpiritDialog.getDialogData(force);
+        super(dialogData, options);
+    }
+
+    static get defaultOptions() {
+        const options = super.defaultOptions;
+        options.id = 'summon-spirit';
+        options.classes = ['sr5', 'form-dialog'];
+        options.height = 'auto';
+        return options;
+    }
+
+    static getDialogData(force: number): FormDialogData {
+        const title = game.i18n.localize('SR5.Spirit.Summon');
+        const templatePath = 'systems/shadowrun5e/dist/templates/apps/dialogs/summon-spirit.html';
+
+        const templateData = {
+            force,
+            spiritTypes: SR5.spiritTypes
+        };
+
+        const buttons = {
+            summon: {
+                label: game.i18n.localize('SR5.Spirit.Summon')
+            }
+        };
+
+        const onAfterClose = (html: JQuery): SummonSpiritData => {
+            const spiritType = $(html).find('[name=spiritType]').val() as SpiritType;
+            const force = Number($(html).find('[name=force]').val());
+            return {spiritType, force};
+        };
+
+        return {
+            title,
+            templatePath,
+            templateData,
+            onAfterClose,
+            buttons,
+            default: 'summon'
+        };
+    }
+}
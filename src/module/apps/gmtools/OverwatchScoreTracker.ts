@@ -2,6 +2,16 @@
  * A GM-Tool to keep track of all players overwatch scores
  */
 import {Helpers} from "../../helpers";
+import {SR5Actor} from "../../actor/SR5Actor";
+import {MatrixRules} from "../../rules/MatrixRules";
+
+interface OverwatchScoreTrackerActor {
+    id: string;
+    name: string;
+    img: string;
+    overwatchScore: number;
+    converged: boolean;
+}
 
 export class OverwatchScoreTracker extends Application {
     static MatrixOverwatchDiceCount = '2d6';
@@ -17,30 +27,41 @@ export class OverwatchScoreTracker extends Application {
         return options;
     }
 
-    static addedActors = [];
+    static addedActors: string[] = [];
 
     getData() {
         // get list of actors that belong to users
-        const actors = game.users.reduce((acc, user) => {
+        const actors = game.users.reduce((acc: SR5Actor[], user) => {
             if (!user.isGM && user.character) {
-                acc.push(user.character.data);
+                acc.push(user.character as SR5Actor);
             }
             return acc;
         }, []);
 
         OverwatchScoreTracker.addedActors.forEach((id) => {
-            const actor = game.actors.find((a) => a._id === id);
+            const actor = game.actors.get(id) as SR5Actor;
             if (actor) {
-                actors.push(actor.data);
+                actors.push(actor);
             }
         });
 
         return {
-            actors,
+            actors: actors.map(actor => this._getActorData(actor))
         };
     }
 
-    activateListeners(html) {
+    _getActorData(actor: SR5Actor): OverwatchScoreTrackerActor {
+        const overwatchScore = actor.getOverwatchScore();
+        return {
+            id: actor.id as string,
+            name: actor.name as string,
+            img: actor.img as string,
+            overwatchScore,
+            converged: MatrixRules.isConverged(overwatchScore)
+        };
+    }
+
+    activateListeners(html: JQuery) {
         html.find('.overwatch-score-reset').on('click', this._resetOverwatchScore.bind(this));
         html.find('.overwatch-score-add').on('click', this._addOverwatchScore.bind(this));
         html.find('.overwatch-score-input').on('change', this._setOverwatchScore.bind(this));
@@ -49,9 +70,9 @@ export class OverwatchScoreTracker extends Application {
     }
 
     // returns the actor that this event is acting on
-    _getActorFromEvent(event) {
+    _getActorFromEvent(event): SR5Actor | undefined {
         const id = event.currentTarget.closest('.list-item').dataset.actorId;
-        if (id) return game.actors.find((a) => a._id === id);
+        if (id) return game.actors.get(id) as SR5Actor;
     }
 
     _onAddActor(event) {
@@ -68,11 +89,12 @@ export class OverwatchScoreTracker extends Application {
         });
     }
 
+    // Setting the score directly adds the difference to allow convergence to trigger.
     _setOverwatchScore(event) {
         const actor = this._getActorFromEvent(event);
-        const amount = event.currentTarget.value;
-        if (amount && actor) {
-            actor.setOverwatchScore(amount).then(() => this.render());
+        const amount = parseInt(event.currentTarget.value);
+        if (!isNaN(amount) && actor) {
+            actor.addOverwatchScore(amount - actor.getOverwatchScore()).then(() => this.render());
         }
     }
 
@@ -80,8 +102,7 @@ export class OverwatchScoreTracker extends Application {
         const actor = this._getActorFromEvent(event);
         const amount = parseInt(event.currentTarget.dataset.amount);
         if (amount && actor) {
-            const os = actor.getOverwatchScore();
-            actor.setOverwatchScore(os + amount).then(() => this.render());
+            actor.addOverwatchScore(amount).then(() => this.render());
         }
     }
 
@@ -99,6 +120,7 @@ export class OverwatchScoreTracker extends Application {
         if (actor) {
             //  use static value so it can be modified in modules
             const roll = new Roll(OverwatchScoreTracker.MatrixOverwatchDiceCount);
+            // @ts-ignore // TODO: foundry-vtt-types 0.8 support
             roll.evaluate({async: false});
 
             // use GM Roll Mode so players don't see
@@ -106,8 +128,7 @@ export class OverwatchScoreTracker extends Application {
             // roll.toMessage({ rollMode });
 
             if (roll.total) {
-                const os = actor.getOverwatchScore();
-                actor.setOverwatchScore(os + roll.total).then(() => this.render());
+                actor.addOverwatchScore(roll.total).then(() => this.render());
             }
         }
     }
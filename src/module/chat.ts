@@ -1,9 +1,10 @@
 import {SR5Actor} from './actor/SR5Actor';
 import {SR5Item} from './item/SR5Item';
 import Template from './template';
-import {CORE_FLAGS, CORE_NAME, FLAGS, SYSTEM_NAME} from './constants';
+import {CORE_FLAGS, CORE_NAME, FLAGS, SR, SYSTEM_NAME} from './constants';
 import {ShadowrunRoll, Test} from "./rolls/ShadowrunRoller";
 import {Helpers} from "./helpers";
+import {SR5} from "./config";
 import {DamageApplicationFlow} from './actor/flows/DamageApplicationFlow';
 import AttackData = Shadowrun.AttackData;
 import DrainData = Shadowrun.DrainData;
@@ -11,6 +12,9 @@ import ModifiedDamageData = Shadowrun.ModifiedDamageData;
 import DamageType = Shadowrun.DamageType;
 import DamageElement = Shadowrun.DamageElement;
 import CombatData = Shadowrun.CombatData;
+import OpposedResultData = Shadowrun.OpposedResultData;
+import DetectionResult = Shadowrun.DetectionResult;
+import DamageData = Shadowrun.DamageData;
 
 export interface RollTargetChatMessage {
     actor: SR5Actor
@@ -21,6 +25,7 @@ export interface RollTargetChatMessage {
     roll: ShadowrunRoll
     attack?: AttackData
     rollMode?: keyof typeof CONFIG.Dice.rollModes
+    title?: string
 }
 
 export interface TargetChatMessageOptions extends RollTargetChatMessage {
@@ -58,6 +63,7 @@ export interface RollChatMessageOptions {
     tests?: Test[]
     combat?: CombatData
     reach?: number
+    opposed?: OpposedResultData
 }
 
 interface ItemChatTemplateData {
@@ -218,6 +224,163 @@ export async function createRollChatMessage(options: RollChatMessageOptions): Pr
 }
 
 
+/**
+ * Announce the demiGOD converging on an actors persona to everyone.
+ *
+ * @param actor The converged on actor.
+ * @param overwatchScore The overwatch score that caused convergence.
+ */
+export async function createConvergenceChatMessage(actor: SR5Actor, overwatchScore: number): Promise<Entity<any>|null> {
+    const template = `systems/shadowrun5e/dist/templates/rolls/convergence-card.html`;
+    const token = actor.getToken();
+    // @ts-ignore // TODO: foundry-vtt-types 0.8 support not yet there.
+    const scene = token?.parent;
+
+    const templateData = {
+        actor,
+        overwatchScore,
+        damage: SR.matrix.convergence.damage,
+        tokenId: getTokenSceneId(token),
+        sceneName: scene?.name
+    };
+    const html = await renderTemplate(template, templateData);
+
+    return await ChatMessage.create({
+        user: game.user?.id,
+        content: html,
+        speaker: {
+            actor: actor.id,
+            token: token?.id,
+            alias: game.i18n.localize('SR5.Overwatch.GOD')
+        }
+    });
+}
+
+/**
+ * Ask the owner of an acting persona to place the marks it earned against a defender.
+ *
+ * @param actor The acting persona.
+ * @param target The defending persona.
+ * @param marks The amount of marks to place.
+ */
+export async function createMarkPlacementChatMessage(actor: SR5Actor, target: SR5Actor, marks: number): Promise<Entity<any>|null> {
+    const template = `systems/shadowrun5e/dist/templates/rolls/mark-placement-card.html`;
+    const token = actor.getToken();
+
+    const templateData = {
+        actor,
+        target,
+        marks,
+        tokenId: getTokenSceneId(token)
+    };
+    const html = await renderTemplate(template, templateData);
+
+    return await ChatMessage.create({
+        user: game.user?.id,
+        content: html,
+        speaker: {
+            actor: actor.id,
+            token: token?.id,
+            alias: game.user?.name
+        },
+        flags: {
+            [SYSTEM_NAME]: {
+                [FLAGS.MessageCustomRoll]: true,
+                [FLAGS.MarkPlacement]: {actorUuid: actor.uuid, targetUuid: target.uuid, marks}
+            }
+        }
+    });
+}
+
+export type SpellResult = {
+    hits: number;
+    threshold: number;
+    netHits: number;
+    success: boolean;
+    detection: DetectionResult | '';
+};
+
+/**
+ * Show the result of a detection or manipulation spell against its threshold.
+ *
+ * @param item The spell cast.
+ * @param result The resolved spell result.
+ */
+export async function createSpellResultChatMessage(item: SR5Item, result: SpellResult): Promise<Entity<any>|null> {
+    const template = `systems/shadowrun5e/dist/templates/rolls/spell-result-card.html`;
+    const actor = item.actor;
+    const token = actor.getToken();
+
+    const templateData = {
+        actor,
+        item,
+        tokenId: getTokenSceneId(token),
+        detection: result.detection ? SR5.detectionResults[result.detection] : '',
+        ...result
+    };
+    const html = await renderTemplate(template, templateData);
+
+    return await ChatMessage.create({
+        user: game.user?.id,
+        content: html,
+        speaker: {
+            actor: actor.id,
+            token: token?.id,
+            alias: game.user?.name
+        }
+    });
+}
+
+
+export type BlastScatter = {
+    distance: number;
+    direction: number;
+    range: string;
+};
+
+export type BlastTarget = {
+    token: Token;
+    distance: number;
+    damage: DamageData;
+};
+
+export type BlastResult = {
+    scatter?: BlastScatter;
+    targets: BlastTarget[];
+};
+
+/**
+ * Show where an area of effect went off and whom it caught.
+ *
+ * @param item The item causing the blast.
+ * @param result The resolved scatter and affected targets.
+ */
+export async function createBlastChatMessage(item: SR5Item, result: BlastResult): Promise<Entity<any>|null> {
+    const template = `systems/shadowrun5e/dist/templates/rolls/blast-card.html`;
+    const actor = item.actor;
+    const token = actor.getToken();
+
+    const templateData = {
+        actor,
+        item,
+        tokenId: getTokenSceneId(token),
+        range: result.scatter ? SR5.weaponRanges[result.scatter.range] ?? 'SR5.OutOfRange' : '',
+        ...result
+    };
+    const html = await renderTemplate(template, templateData);
+
+    return await ChatMessage.create({
+        user: game.user?.id,
+        content: html,
+        speaker: {
+            actor: actor.id,
+            token: token?.id,
+            alias: game.user?.name
+        }
+    });
+}
+
+
 function getRollChatTemplateData(options: RollChatMessageOptions): RollChatTemplateData {
     const token = options.actor?.getToken();
 
@@ -321,12 +484,38 @@ export const addRollListeners = (app: ChatMessage, html) => {
             await item.rollTestType(type, attack, event, actor);
         }
     });
+    html.on('click', '.place-marks', async (event) => {
+        event.preventDefault();
+
+        const messageId = html.data('messageId');
+        const message = game.messages?.get(messageId);
+        const placement = message?.getFlag(SYSTEM_NAME, FLAGS.MarkPlacement) as {actorUuid: string, targetUuid: string, marks: number};
+        if (!placement) return;
+
+        const actor = await Helpers.getActorFromUuid(placement.actorUuid);
+        const target = await Helpers.getActorFromUuid(placement.targetUuid);
+        if (!actor || !target) return;
+
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        if (!actor.isOwner) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Marks.OnlyActorCanPlace'));
+            return;
+        }
+
+        await actor.selectMarkPlacement(target, placement.marks);
+    });
     html.on('click', '.place-template', (event) => {
         event.preventDefault();
         const item = SR5Item.getItemFromMessage(html);
+        const messageId = html.data('messageId');
+        const message = game.messages?.get(messageId);
+        const attack = message?.getFlag(SYSTEM_NAME, FLAGS.Attack) as AttackData | undefined;
+        const rollData = message?.getFlag(SYSTEM_NAME, FLAGS.Roll);
+        // @ts-ignore // foundry-vtt-types Roll.fromData doesn't support subclasses
+        const roll = rollData ? ShadowrunRoll.fromData(rollData) as ShadowrunRoll : undefined;
 
         if (item) {
-            const template = Template.fromItem(item);
+            const template = Template.fromItem(item, attack, roll);
             template?.drawPreview();
         }
     });
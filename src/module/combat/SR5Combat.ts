@@ -2,14 +2,20 @@ import {SR5Actor} from "../actor/SR5Actor";
 import {FLAGS, SR, SYSTEM_NAME, SYSTEM_SOCKET} from "../constants";
 import Combatant = Combat.Combatant;
 import {CombatRules} from "../rules/CombatRules";
+import {MatrixRules} from "../rules/MatrixRules";
+import {SR5} from "../config";
+import ActionPhaseData = Shadowrun.ActionPhaseData;
+import InitiativeValues = Shadowrun.InitiativeValues;
+import ActionsTaken = Shadowrun.ActionsTaken;
 
 /**
  * Foundry combat implementation for Shadowrun5 rules.
  *
- * TODO: Store what combatants already acted and with what initiative base and dice they did. This can be used to alter
- *       initiative score without fully rerolling and maintain propper turn order after an actor raised they ini while
- *       stepping over other actors that already had their action phase in the current initiative pass.
- *       @PDF SR5#160 'Chaning Initiative'
+ * Each combatant stores what initiative base, dice and wounds its score has been rolled with and if it already acted
+ * within the current initiative pass. This is used to alter initiative scores without fully rerolling and to maintain
+ * proper turn order after a combatant changed their initiative while stepping over other combatants that already had
+ * their action phase in the current initiative pass.
+ * @PDF SR5#160 'Changing Initiative'
  */
 export class SR5Combat extends Combat {
     constructor(...args: any) {
@@ -37,6 +43,349 @@ export class SR5Combat extends Combat {
         return this.getCombatantByToken(token.id);
     }
 
+    static getActionPhase(combatant: any): ActionPhaseData | undefined {
+        return combatant.getFlag(SYSTEM_NAME, FLAGS.CombatantActionPhase);
+    }
+
+    static async setActionPhase(combatant: any, actionPhase: ActionPhaseData) {
+        await combatant.setFlag(SYSTEM_NAME, FLAGS.CombatantActionPhase, actionPhase);
+    }
+
+    /**
+     * Collect the actor values a combatants initiative score depends on.
+     */
+    static getInitiativeValues(actor: SR5Actor): InitiativeValues {
+        // @ts-ignore // Not all actor types share the same initiative and wounds data.
+        const {initiative, wounds} = actor.data.data;
+        return {
+            base: Number(initiative?.current?.base?.value) || 0,
+            dice: Number(initiative?.current?.dice?.value) || 0,
+            wounds: Number(wounds?.value) || 0
+        };
+    }
+
+    /**
+     * Has the given combatant already had its action phase within the current initiative pass?
+     */
+    hasActed(combatant: any): boolean {
+        const acted = SR5Combat.getActionPhase(combatant)?.acted;
+        if (!acted) return false;
+        return acted.round === this.round && acted.pass === this.initiativePass;
+    }
+
+    /**
+     * Store the given combatant as having acted within the current initiative pass at the current turn position.
+     *
+     * Progressive recoil ends with an action phase the combatant didn't fire in.
+     * @PDF SR5#175 'Recoil'
+     */
+    async markActed(combatant: any) {
+        const actionPhase = SR5Combat.getActionPhase(combatant) ?? {initiative: SR5Combat.getInitiativeValues(combatant.actor)};
+        actionPhase.acted = {
+            round: this.round,
+            pass: this.initiativePass,
+            position: this.turn
+        };
+        if (actionPhase.recoil && !this.isCurrentActionPhase(actionPhase.recoil)) {
+            actionPhase.recoil = {value: 0, round: this.round, pass: this.initiativePass};
+        }
+        await SR5Combat.setActionPhase(combatant, actionPhase);
+    }
+
+    /**
+     * Does the given round and initiative pass match the currently running ones?
+     */
+    isCurrentActionPhase({round, pass}: {round: number, pass: number}): boolean {
+        return round === this.round && pass === this.initiativePass;
+    }
+
+    /**
+     * Collect the bullets the given combatant has fired within consecutive action phases.
+     */
+    static getAccumulatedRecoil(combatant: any): number {
+        return SR5Combat.getActionPhase(combatant)?.recoil?.value || 0;
+    }
+
+    /**
+     * Add fired bullets to the progressive recoil of the given combatant.
+     */
+    async addRecoil(combatant: any, fired: number) {
+        if (!fired) return;
+
+        const actionPhase = SR5Combat.getActionPhase(combatant) ?? {initiative: SR5Combat.getInitiativeValues(combatant.actor)};
+        actionPhase.recoil = {
+            value: SR5Combat.getAccumulatedRecoil(combatant) + fired,
+            round: this.round,
+            pass: this.initiativePass
+        };
+        await SR5Combat.setActionPhase(combatant, actionPhase);
+    }
+
+    /**
+     * Collect the actions the given combatant has taken within its current action phase.
+     */
+    getActionsTaken(combatant: any): ActionsTaken {
+        const actions = SR5Combat.getActionPhase(combatant)?.actions;
+        if (!actions || actions.round !== this.round || actions.pass !== this.initiativePass) {
+            return {free: 0, simple: 0, complex: 0};
+        }
+        const {free, simple, complex} = actions;
+        return {free, simple, complex};
+    }
+
+    /**
+     * Only the combatant having its action phase is limited in its actions.
+     */
+    isActionPhaseOf(combatant: any): boolean {
+        return !!this.combatant && this.combatant._id === combatant._id;
+    }
+
+    /**
+     * Check if the given combatant can take an action of given type within its current action phase.
+     * Depending on the action economy setting, the user is warned or the action is blocked.
+     * @PDF SR5#163 'Action Phase'
+     *
+     * @return false, when the action must not be taken.
+     */
+    canTakeAction(combatant: any, type: string): boolean {
+        if (!this.isActionPhaseOf(combatant)) return true;
+        if (CombatRules.canTakeAction(this.getActionsTaken(combatant), type)) return true;
+
+        if (game.settings.get(SYSTEM_NAME, FLAGS.ActionEconomy) === 'block') {
+            ui.notifications?.error(game.i18n.localize('SR5.Errors.NoActionsLeft'));
+            return false;
+        }
+
+        ui.notifications?.warn(game.i18n.localize('SR5.Warnings.NoActionsLeft'));
+        return true;
+    }
+
+    /**
+     * Record an action of given type as taken by the combatant within its current action phase.
+     */
+    async takeAction(combatant: any, type: string) {
+        if (!this.isActionPhaseOf(combatant)) return;
+        if (!['free', 'simple', 'complex'].includes(type)) return;
+
+        const taken = this.getActionsTaken(combatant);
+        taken[type] += 1;
+
+        const actionPhase = SR5Combat.getActionPhase(combatant) ?? {initiative: SR5Combat.getInitiativeValues(combatant.actor)};
+        actionPhase.actions = {...taken, round: this.round, pass: this.initiativePass};
+        await SR5Combat.setActionPhase(combatant, actionPhase);
+    }
+
+    /**
+     * Has the given combatant already reconfigured its cyberdeck within its current action phase?
+     */
+    hasReconfigured(combatant: any): boolean {
+        const reconfigured = SR5Combat.getActionPhase(combatant)?.reconfigured;
+        if (!reconfigured) return false;
+        return this.isCurrentActionPhase(reconfigured);
+    }
+
+    /**
+     * Check if the given combatant can reconfigure its cyberdeck within its current action phase.
+     * Depending on the action economy setting, the user is warned or the reconfiguration is blocked.
+     *
+     * @param combatant The combatant of the decker.
+     * @param configurator The decker has a Configurator program running.
+     * @return false, when the cyberdeck must not be reconfigured.
+     */
+    canReconfigure(combatant: any, configurator: boolean): boolean {
+        if (!this.isActionPhaseOf(combatant)) return true;
+        if (MatrixRules.canReconfigure(this.hasReconfigured(combatant), configurator)) return true;
+
+        if (game.settings.get(SYSTEM_NAME, FLAGS.ActionEconomy) === 'block') {
+            ui.notifications?.error(game.i18n.localize('SR5.Errors.AlreadyReconfigured'));
+            return false;
+        }
+
+        ui.notifications?.warn(game.i18n.localize('SR5.Warnings.AlreadyReconfigured'));
+        return true;
+    }
+
+    /**
+     * Record the combatant as having reconfigured its cyberdeck within its current action phase.
+     */
+    async markReconfigured(combatant: any) {
+        if (!this.isActionPhaseOf(combatant)) return;
+
+        const actionPhase = SR5Combat.getActionPhase(combatant) ?? {initiative: SR5Combat.getInitiativeValues(combatant.actor)};
+        actionPhase.reconfigured = {round: this.round, pass: this.initiativePass};
+        await SR5Combat.setActionPhase(combatant, actionPhase);
+    }
+
+    /**
+     * Has the given combatant declared full defense, which is still active?
+     */
+    static hasFullDefense(combatant: any): boolean {
+        return !!SR5Combat.getActionPhase(combatant)?.fullDefense;
+    }
+
+    static async setFullDefense(combatant: any, fullDefense: boolean) {
+        const actionPhase = SR5Combat.getActionPhase(combatant) ?? {initiative: SR5Combat.getInitiativeValues(combatant.actor)};
+        actionPhase.fullDefense = fullDefense;
+        await SR5Combat.setActionPhase(combatant, actionPhase);
+    }
+
+    /**
+     * Check if the given combatant has enough initiative score left to use an interrupt action.
+     * @PDF SR5#168 'Interrupt Actions'
+     */
+    static canUseInterruptAction(combatant: any, action: string): boolean {
+        const initMod = SR.combat.interrupt_actions[action];
+        if (initMod === undefined) {
+            console.error(`Shadowrun 5e | Unknown interrupt action ${action}`);
+            return false;
+        }
+        return CombatRules.canUseInterruptAction(Number(combatant.initiative), initMod);
+    }
+
+    /**
+     * Use an interrupt action for the given combatant and reduce its initiative score by the actions cost.
+     * @PDF SR5#168 'Interrupt Actions'
+     *
+     * @param combatant The combatant taking the interrupt action.
+     * @param action The interrupt action to use. See SR.combat.interrupt_actions
+     * @return false, when the interrupt action can't be used.
+     */
+    async useInterruptAction(combatant: any, action: string): Promise<boolean> {
+        if (!SR5Combat.canUseInterruptAction(combatant, action)) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.InterruptActionInitiativeTooLow'));
+            return false;
+        }
+
+        const initMod = SR.combat.interrupt_actions[action];
+
+        await this.adjustInitiative(combatant, initMod);
+
+        if (action === 'full_defense') {
+            await SR5Combat.setFullDefense(combatant, true);
+        }
+
+        return true;
+    }
+
+    /**
+     * Store the actor values the initiative score of given combatants has been rolled with.
+     */
+    async storeInitiativeValues(ids: string[]) {
+        for (const id of ids) {
+            // @ts-ignore // foundry-vtt-types doesn't have DocumentCollection.get yet.
+            const combatant = this.combatants.get(id);
+            if (!combatant?.actor) continue;
+
+            const actionPhase = SR5Combat.getActionPhase(combatant) ?? {} as ActionPhaseData;
+            actionPhase.initiative = SR5Combat.getInitiativeValues(combatant.actor);
+            await SR5Combat.setActionPhase(combatant, actionPhase);
+        }
+    }
+
+    /**
+     * Adjust the initiative score of a combatant to changes in its actors initiative values, without fully rerolling.
+     * @PDF SR5#160 'Changing Initiative'
+     */
+    async adjustInitiativeToActor(combatant: any) {
+        if (!combatant.actor || combatant.initiative === null) return;
+
+        const actionPhase = SR5Combat.getActionPhase(combatant);
+        if (!actionPhase?.initiative) return;
+
+        const current = SR5Combat.getInitiativeValues(combatant.actor);
+        const change = CombatRules.initiativeScoreChange(actionPhase.initiative, current);
+        if (change.score === 0 && change.dice === 0) return;
+
+        let adjustment = change.score;
+        if (change.dice !== 0) {
+            // @ts-ignore
+            const roll = new Roll(`${Math.abs(change.dice)}d6`).evaluate({async: false});
+            adjustment += Math.sign(change.dice) * Number(roll.total);
+        }
+
+        actionPhase.initiative = current;
+        await SR5Combat.setActionPhase(combatant, actionPhase);
+        await this.adjustInitiative(combatant, adjustment);
+    }
+
+    /**
+     * Handle changes of an actor that might have changed its initiative values within the active combat.
+     * Only the user causing the change will handle it, to avoid multiple adjustments.
+     */
+    static async handleActorInitiativeChange(actor: SR5Actor, userId: string) {
+        if (!actor || userId !== game.user?.id) return;
+
+        const combat = game.combat as unknown as SR5Combat;
+        if (!combat) return;
+        const combatant = combat.getActorCombatant(actor);
+        if (!combatant) return;
+
+        await combat.adjustInitiativeToActor(combatant);
+    }
+
+    static async onUpdateActor(actor: SR5Actor, data, options, userId: string) {
+        await SR5Combat.handleActorInitiativeChange(actor, userId);
+    }
+
+    static async onUpdateItem(item: Item, data, options, userId: string) {
+        await SR5Combat.handleActorInitiativeChange(item.actor as unknown as SR5Actor, userId);
+    }
+
+    /**
+     * Full defense ends, when the defending combatant starts its next action phase.
+     * Only the GM will handle it, to avoid multiple updates.
+     */
+    static async onUpdateCombat(combat: SR5Combat, data, options, userId: string) {
+        if (!game.user?.isGM) return;
+        if (!data.hasOwnProperty('turn') && !data.hasOwnProperty('round')) return;
+
+        const combatant = combat.combatant;
+        if (!combatant || !SR5Combat.hasFullDefense(combatant)) return;
+
+        await SR5Combat.setFullDefense(combatant, false);
+    }
+
+    /**
+     * Disorientation caused by dumpshock doesn't outlast the combat it happened in.
+     * Only the GM will handle it, to avoid multiple updates.
+     */
+    static async onDeleteCombat(combat: SR5Combat, options, userId: string) {
+        if (!game.user?.isGM) return;
+
+        for (const combatant of combat.combatants) {
+            const actor = combatant.actor as unknown as SR5Actor;
+            if (actor?.isDisoriented()) await actor.setDisoriented(false);
+        }
+    }
+
+    /**
+     * Mark all combatants within the combat tracker that already acted within the current initiative pass and show
+     * the actions left to all others.
+     */
+    static renderCombatTracker(app: Application, html: JQuery, data) {
+        // @ts-ignore // foundry-vtt-types CombatTracker.viewed isn't typed.
+        const combat = app.viewed as SR5Combat;
+        if (!combat) return;
+
+        html.find('.combatant').each((index, element) => {
+            // @ts-ignore // foundry-vtt-types doesn't have DocumentCollection.get yet.
+            const combatant = combat.combatants.get(element.dataset.combatantId);
+            if (!combatant) return;
+
+            if (!combat.hasActed(combatant)) {
+                const left = CombatRules.actionsLeft(combat.getActionsTaken(combatant));
+                const title = game.i18n.localize('SR5.COMBAT.ActionsLeft');
+                const free = game.i18n.localize('SR5.ActionTypeFree');
+                const simple = game.i18n.localize('SR5.ActionTypeSimple');
+                $(element).find('.token-name').append(`<div class="actions-left" title="${title}">${free}: ${left.free} ${simple}: ${left.simple}</div>`);
+                return;
+            }
+
+            $(element).addClass('acted');
+            $(element).find('.token-initiative').prepend(`<i class="fas fa-check acted-marker" title="${game.i18n.localize('SR5.COMBAT.Acted')}"></i>`);
+        });
+    }
+
     /**
      * Add ContextMenu options to CombatTracker Entries -- adds the basic Initiative Subtractions
      * @param html
@@ -81,6 +430,24 @@ export class SR5Combat extends Combat {
                 },
             },
         );
+
+        // Interrupt actions cost initiative and can only be taken with enough initiative score left.
+        for (const [action, label] of Object.entries(SR5.interruptActions)) {
+            const initMod = SR.combat.interrupt_actions[action];
+            options.push({
+                name: `${game.i18n.localize(label)} (${initMod})`,
+                icon: '<i class="fas fa-shield-alt"></i>',
+                callback: async (li) => {
+                    // @ts-ignore // foundry-vtt-types doesn't have DocumentCollection.get yet.
+                    const combatant = await game.combat.combatants.get(li.data('combatant-id'));
+                    if (combatant) {
+                        const combat: SR5Combat = game.combat as unknown as SR5Combat;
+                        await combat.useInterruptAction(combatant, action);
+                    }
+                },
+            });
+        }
+
         return options;
     }
 
@@ -149,7 +516,26 @@ export class SR5Combat extends Combat {
      */
     setupTurns(): any[] {
         const turns = super.setupTurns();
-        return turns.sort(SR5Combat.sortByRERIC);
+        return turns.sort((left, right) => this.sortByActionPhase(left, right));
+    }
+
+    /**
+     * Combatants that already acted within the current initiative pass keep their position, even if their initiative
+     * score changed. Only combatants yet to act are sorted by their initiative score.
+     * @PDF SR5#160 'Changing Initiative'
+     */
+    sortByActionPhase(left, right): number {
+        const leftActed = this.hasActed(left);
+        const rightActed = this.hasActed(right);
+
+        if (leftActed && rightActed) {
+            // @ts-ignore // hasActed assures acted data.
+            return SR5Combat.getActionPhase(left).acted.position - SR5Combat.getActionPhase(right).acted.position;
+        }
+        if (leftActed) return -1;
+        if (rightActed) return 1;
+
+        return SR5Combat.sortByRERIC(left, right);
     }
 
     static sortByRERIC(left, right): number {
@@ -261,6 +647,11 @@ export class SR5Combat extends Combat {
             return;
         }
 
+        // The current combatant ends its action phase.
+        if (this.combatant) {
+            await this.markActed(this.combatant);
+        }
+
         // Just step from one combatant to the next!
         if (nextTurn < this.turns.length) {
             await this.update({turn: nextTurn});
@@ -331,6 +722,8 @@ export class SR5Combat extends Combat {
     async rollInitiative(ids, options): Promise<SR5Combat> {
         const combat = await super.rollInitiative(ids, options) as SR5Combat;
 
+        await combat.storeInitiativeValues(typeof ids === 'string' ? [ids] : ids);
+
         if (this.initiativePass === SR.combat.INITIAL_INI_PASS)
             await combat.update({turn: 0});
 
@@ -10,8 +10,11 @@ export const SR5 = {
         cyberware: 'SR5.ItemTypes.Cyberware',
         bioware: 'SR5.ItemTypes.Bioware',
         device: 'SR5.ItemTypes.Device',
+        echo: 'SR5.ItemTypes.Echo',
         equipment: 'SR5.ItemTypes.Equipment',
+        focus: 'SR5.ItemTypes.Focus',
         lifestyle: 'SR5.ItemTypes.Lifestyle',
+        metamagic: 'SR5.ItemTypes.Metamagic',
         modification: 'SR5.ItemTypes.Modification',
         quality: 'SR5.ItemTypes.Quality',
         sin: 'SR5.ItemTypes.Sin',
@@ -42,6 +45,7 @@ export const SR5 = {
         physical: 'SR5.LimitPhysical',
         social: 'SR5.LimitSocial',
         mental: 'SR5.LimitMental',
+        astral: 'SR5.LimitAstral',
         attack: 'SR5.MatrixAttrAttack',
         sleaze: 'SR5.MatrixAttrSleaze',
         data_processing: 'SR5.MatrixAttrDataProc',
@@ -143,6 +147,11 @@ export const SR5 = {
         extreme: 'SR5.WeaponRangeExtreme',
     },
 
+    scatterTypes: {
+        standard: 'SR5.Blast.ScatterTypes.Standard',
+        aerodynamic: 'SR5.Blast.ScatterTypes.Aerodynamic',
+    },
+
     qualityTypes: {
         positive: 'SR5.QualityTypePositive',
         negative: 'SR5.QualityTypeNegative',
@@ -158,6 +167,7 @@ export const SR5 = {
     deviceCategories: {
         commlink: 'SR5.DeviceCatCommlink',
         cyberdeck: 'SR5.DeviceCatCyberdeck',
+        rcc: 'SR5.DeviceCatRCC',
     },
 
     cyberwareGrades: {
@@ -258,9 +268,23 @@ export const SR5 = {
         free: 'SR5.ActionTypeFree',
         simple: 'SR5.ActionTypeSimple',
         complex: 'SR5.ActionTypeComplex',
+        interrupt: 'SR5.ActionTypeInterrupt',
         varies: 'SR5.ActionTypeVaries',
     },
 
+    actionEconomy: {
+        warn: 'SETTINGS.ActionEconomyWarn',
+        block: 'SETTINGS.ActionEconomyBlock',
+    },
+
+    interruptActions: {
+        full_defense: 'SR5.FullDefense',
+        dodge: 'SR5.Dodge',
+        block: 'SR5.Block',
+        parry: 'SR5.Parry',
+        intercept: 'SR5.Intercept',
+    },
+
     // Use within action damage calculation (base <operator> attribute) => value
     actionDamageFormulaOperators: {
         add: '+',
@@ -306,6 +330,44 @@ export const SR5 = {
         other: 'SR5.LifestyleOther',
     },
 
+    metamagicTypes: {
+        centering: 'SR5.Metamagic.Types.Centering',
+        extended_masking: 'SR5.Metamagic.Types.ExtendedMasking',
+        flexible_signature: 'SR5.Metamagic.Types.FlexibleSignature',
+        masking: 'SR5.Metamagic.Types.Masking',
+        quickening: 'SR5.Metamagic.Types.Quickening',
+        reflecting: 'SR5.Metamagic.Types.Reflecting',
+        shielding: 'SR5.Metamagic.Types.Shielding',
+        spell_shaping: 'SR5.Metamagic.Types.SpellShaping',
+    },
+
+    focusTypes: {
+        banishing: 'SR5.Focus.Types.Banishing',
+        binding: 'SR5.Focus.Types.Binding',
+        counterspelling: 'SR5.Focus.Types.Counterspelling',
+        enchanting: 'SR5.Focus.Types.Enchanting',
+        metamagic: 'SR5.Focus.Types.Metamagic',
+        power: 'SR5.Focus.Types.Power',
+        qi: 'SR5.Focus.Types.Qi',
+        spellcasting: 'SR5.Focus.Types.Spellcasting',
+        summoning: 'SR5.Focus.Types.Summoning',
+        sustaining: 'SR5.Focus.Types.Sustaining',
+        weapon: 'SR5.Focus.Types.Weapon',
+    },
+
+    objectResistances: {
+        natural: 'SR5.Spellcasting.ObjectResistance.Natural',
+        low_tech: 'SR5.Spellcasting.ObjectResistance.LowTech',
+        high_tech: 'SR5.Spellcasting.ObjectResistance.HighTech',
+        highly_processed: 'SR5.Spellcasting.ObjectResistance.HighlyProcessed',
+    },
+
+    detectionResults: {
+        general: 'SR5.Spellcasting.DetectionResult.General',
+        detailed: 'SR5.Spellcasting.DetectionResult.Detailed',
+        complete: 'SR5.Spellcasting.DetectionResult.Complete',
+    },
+
     kbmod: {
         STANDARD: 'shiftKey',
         EDGE: 'altKey',
@@ -344,6 +406,26 @@ export const SR5 = {
         common_program: 'SR5.CommonProgram',
         hacking_program: 'SR5.HackingProgram',
         agent: 'SR5.Agent',
+        autosoft: 'SR5.Autosoft.Label',
+    },
+
+    autosoftTypes: {
+        clearsight: 'SR5.Autosoft.Types.Clearsight',
+        evasion: 'SR5.Autosoft.Types.Evasion',
+        maneuvering: 'SR5.Autosoft.Types.Maneuvering',
+        stealth: 'SR5.Autosoft.Types.Stealth',
+        targeting: 'SR5.Autosoft.Types.Targeting',
+    },
+
+    programEffects: {
+        attack: 'SR5.MatrixAttrAttack',
+        sleaze: 'SR5.MatrixAttrSleaze',
+        data_processing: 'SR5.MatrixAttrDataProc',
+        firewall: 'SR5.MatrixAttrFirewall',
+        matrix_soak: 'SR5.ProgramEffects.MatrixSoak',
+        biofeedback_soak: 'SR5.ProgramEffects.BiofeedbackSoak',
+        place_marks: 'SR5.ProgramEffects.PlaceMarks',
+        slots: 'SR5.ProgramEffects.Slots',
     },
 
     spiritTypes: {
@@ -430,6 +512,23 @@ export const SR5 = {
         },
     },
 
+    icTypes: {
+        acid: 'SR5.IC.Types.Acid',
+        binder: 'SR5.IC.Types.Binder',
+        black_ic: 'SR5.IC.Types.BlackIC',
+        blaster: 'SR5.IC.Types.Blaster',
+        crash: 'SR5.IC.Types.Crash',
+        jammer: 'SR5.IC.Types.Jammer',
+        killer: 'SR5.IC.Types.Killer',
+        marker: 'SR5.IC.Types.Marker',
+        patrol: 'SR5.IC.Types.Patrol',
+        probe: 'SR5.IC.Types.Probe',
+        scramble: 'SR5.IC.Types.Scramble',
+        sparky: 'SR5.IC.Types.Sparky',
+        tar_baby: 'SR5.IC.Types.TarBaby',
+        track: 'SR5.IC.Types.Track',
+    },
+
     spriteTypes: {
         courier: 'SR5.Sprite.Types.Courier',
         crack: 'SR5.Sprite.Types.Crack',
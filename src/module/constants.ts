@@ -36,6 +36,15 @@ export const FLAGS = {
     Modifier: 'modifier',
     DoInitPass: 'doInitPass',
     DoNextRound: 'doNextRound',
+    CombatantActionPhase: 'combatantActionPhase',
+    ActionEconomy: 'actionEconomy',
+    ChummerImport: 'chummerImport',
+    SharedRiggerGunnery: 'sharedRiggerGunnery',
+    MarkPlacement: 'markPlacement',
+    ClearMarks: 'clearMarks',
+    AddOverwatchScore: 'addOverwatchScore',
+    CreateSummonedActor: 'createSummonedActor',
+    DismissSummonedActor: 'dismissSummonedActor',
 };
 export const CORE_NAME = 'core';
 export const CORE_FLAGS = {
@@ -78,6 +87,44 @@ export const SR = {
             }
         },
 
+        // Initiative score cost of interrupt actions @PDF SR5#168
+        interrupt_actions: {
+            full_defense: -10,
+            dodge: -5,
+            block: -5,
+            parry: -5,
+            intercept: -5
+        },
+
+        // Actions available within one action phase @PDF SR5#163
+        action_phase: {
+            free: 1,
+            simple: 2,
+            // A complex action uses up both simple actions.
+            simple_per_complex: 2
+        },
+
+        // Grenade scatter @PDF SR5#182 'Scatter'
+        scatter: {
+            // Hits above the threshold reduce the scatter.
+            threshold: 3,
+            // Scatter dice by grenade type.
+            dice: {
+                standard: 1,
+                aerodynamic: 2
+            },
+            // Additional meters of scatter by range category.
+            range_meters: {
+                short: 0,
+                medium: 1,
+                long: 2,
+                extreme: 4,
+                out_of_range: 4
+            },
+            // Each side of the direction die points into a sector of this many degrees.
+            direction_sector: 60
+        },
+
         INI_RESULT_MOD_AFTER_INI_PASS: -10,
         INITIAL_INI_PASS: 1,
         INITIAL_INI_ROUND: 1
@@ -94,6 +141,116 @@ export const SR = {
             }
         }
     },
+    matrix: {
+        // @PDF SR5#231
+        max_marks: 3,
+        // Dice pool modifier for placing more than one mark at once @PDF SR5#240
+        mark_placement_modifiers: {
+            1: 0,
+            2: -4,
+            3: -10
+        },
+        // Running program effects by program name @PDF SR5#245
+        program_effects: {
+            armor: {matrix_soak: 2},
+            biofeedback_filter: {biofeedback_soak: 2},
+            decryption: {attack: 1},
+            encryption: {firewall: 1},
+            exploit: {place_marks: 2},
+            shell: {matrix_soak: 1, biofeedback_soak: 1},
+            stealth: {sleaze: 1},
+            toolbox: {data_processing: 1},
+            virtual_machine: {slots: 2}
+        },
+        // Follow up effects of matrix damage dealt while running these hacking programs @PDF SR5#246
+        attack_effects: {
+            biofeedback: {biofeedback: 'sim'},
+            blackout: {biofeedback: 'stun'},
+            lockdown: {link_lock: true}
+        },
+        // IC attacks with the defenders attributes opposing them @PDF SR5#248
+        ic_attacks: {
+            acid: {opposed: ['willpower', 'firewall']},
+            binder: {opposed: ['willpower', 'data_processing']},
+            black_ic: {opposed: ['intuition', 'firewall'], damage: 'matrix', biofeedback: 'sim', link_lock: true},
+            blaster: {opposed: ['logic', 'firewall'], damage: 'matrix', biofeedback: 'stun', link_lock: true},
+            crash: {opposed: ['intuition', 'firewall']},
+            jammer: {opposed: ['willpower', 'attack']},
+            killer: {opposed: ['intuition', 'firewall'], damage: 'matrix'},
+            marker: {opposed: ['willpower', 'sleaze']},
+            probe: {opposed: ['intuition', 'firewall']},
+            scramble: {opposed: ['willpower', 'firewall']},
+            sparky: {opposed: ['intuition', 'firewall'], damage: 'matrix', biofeedback: 'sim'},
+            tar_baby: {opposed: ['logic', 'firewall']},
+            track: {opposed: ['willpower', 'sleaze']}
+        },
+        ic_initiative_dice: 4,
+        // @PDF SR5#231 'Overwatch Score and Convergence'
+        convergence: {
+            overwatch_score: 40,
+            damage: 12
+        },
+        // @PDF SR5#229 'Dumpshock'
+        dumpshock_damage: 6,
+        dumpshock_disorientation: -2,
+        // Natural maximum resonance, raised by submersion @PDF SR5#258 'Submersion'
+        resonance_max: 6,
+        // @PDF SR5#254 'Compiling a Sprite'
+        sprite_fade_min: 2
+    },
+    magic: {
+        // @PDF SR5#300 'Summoning'
+        drain_min: 2,
+        // Drams of reagents consumed per point of Force @PDF SR5#300 'Binding'
+        binding_reagents: 25,
+        // Dice pool modifier for each sustained spell or complex form @PDF SR5#281 'Sustaining Spells'
+        sustaining_modifier: -2,
+        // Multitasking modifier while perceiving both planes @PDF SR5#313 'Astral Perception'
+        astral_perception_modifier: -2,
+        // Mental attributes replacing physical attributes on the astral plane @PDF SR5#314 'Astral Projection'
+        astral_attributes: {
+            agility: 'logic',
+            body: 'willpower',
+            reaction: 'intuition',
+            strength: 'charisma'
+        },
+        // Natural maximum magic, raised by initiation @PDF SR5#324 'Initiation'
+        magic_max: 6,
+        // Karma cost of a grade is base + grade * multiplier @PDF SR5#325 'Initiation'
+        grade_karma_base: 10,
+        grade_karma_multiplier: 3,
+        // Karma per point of Force to bond a focus @PDF SR5#319 'Bonding Foci'
+        focus_bonding_karma: {
+            banishing: 2,
+            binding: 2,
+            counterspelling: 2,
+            enchanting: 3,
+            metamagic: 3,
+            power: 6,
+            qi: 2,
+            spellcasting: 2,
+            summoning: 2,
+            sustaining: 2,
+            weapon: 3
+        },
+        // Active foci with a total Force above Magic times this risk focus addiction @PDF SR5#318 'Foci'
+        focus_force_multiplier: 2,
+        // @PDF SR5#281 'Reckless Spellcasting'
+        reckless_drain: 3,
+        // Threshold to affect non-living objects with a spell @PDF SR5#295 'Object Resistance'
+        object_resistance: {
+            natural: 1,
+            low_tech: 2,
+            high_tech: 3,
+            highly_processed: 4
+        },
+        // Net hits needed for each detection result @PDF SR5#285 'Detection Spells'
+        detection_results: {
+            general: 1,
+            detailed: 3,
+            complete: 5
+        }
+    },
     attributes: {
         ranges: {
             magic: {min: 0},
@@ -113,6 +270,8 @@ export const SR = {
             data_processing: {min: 0},
             firewall: {min: 0}
         },
+        // Natural maximum essence, any essence lost reduces magic and resonance @PDF SR5#278 'Essence and Magic'
+        essence_max: 6,
         SHORT_NAME_LENGTH: 3
     },
     skill: {
@@ -114,7 +114,9 @@ export class DefaultValues {
             damage: this.damageData(),
             opposed: this.opposedTestData(),
             alt_mod: 0,
-            dice_pool_mod: []
+            dice_pool_mod: [],
+            marks: {required: 0, place: false},
+            illegal: false
         }, partialActionRollData) as ActionRollData;
     }
 
@@ -10,6 +10,7 @@ import RangeWeaponData = Shadowrun.RangeWeaponData;
 import ShadowrunItemData = Shadowrun.ShadowrunItemData;
 import ShadowrunItemDataData = Shadowrun.ShadowrunItemDataData;
 import ModificationItemData = Shadowrun.ModificationItemData;
+import ProgramItemData = Shadowrun.ProgramItemData;
 
 export class SR5ItemDataWrapper extends DataWrapper<ShadowrunItemData> {
     getType() {
@@ -116,6 +117,17 @@ export class SR5ItemDataWrapper extends DataWrapper<ShadowrunItemData> {
         return this.getData()?.combat?.type === 'indirect';
     }
 
+    isAstralCombat(): boolean {
+        return this.getData().action?.skill === 'astral_combat';
+    }
+
+    /** Spells and complex forms with a sustained duration need to be sustained by their caster.
+     */
+    isSustained(): boolean {
+        if (!this.isSpell() && !this.isComplexForm()) return false;
+        return this.getData().duration === 'sustained';
+    }
+
     isManaSpell(): boolean {
         if (!this.isSpell()) return false;
         // Cast as partial spelldata due to conflicting .type between differing item types.
@@ -142,6 +154,18 @@ export class SR5ItemDataWrapper extends DataWrapper<ShadowrunItemData> {
         return this.data.type === 'sprite_power';
     }
 
+    isEcho(): boolean {
+        return this.data.type === 'echo';
+    }
+
+    isMetamagic(): boolean {
+        return this.data.type === 'metamagic';
+    }
+
+    isFocus(): boolean {
+        return this.data.type === 'focus';
+    }
+
     isComplexForm(): boolean {
         return this.data.type === 'complex_form';
     }
@@ -174,6 +198,23 @@ export class SR5ItemDataWrapper extends DataWrapper<ShadowrunItemData> {
         return this.isDevice() && this.getData().category === 'cyberdeck';
     }
 
+    isRCC(): boolean {
+        return this.isDevice() && this.getData().category === 'rcc';
+    }
+
+    isAutosoft(): boolean {
+        if (!this.isProgram()) return false;
+        const program = this.data as ProgramItemData;
+        return program.data.type === 'autosoft';
+    }
+
+    /**
+     * Programs loaded into a device are running. Autosofts are handled by drones and RCCs separately.
+     */
+    isRunningProgram(): boolean {
+        return this.isProgram() && this.isEquipped() && !this.isAutosoft();
+    }
+
     isSin(): boolean {
         return this.data.type === 'sin';
     }
@@ -16,6 +16,9 @@ export const preloadHandlebarsTemplates = async () => {
 
         'systems/shadowrun5e/dist/templates/actor/tabs/matrix/SpriteSkillsTab.html',
 
+        'systems/shadowrun5e/dist/templates/actor/tabs/host/HostTab.html',
+        'systems/shadowrun5e/dist/templates/actor/tabs/host/ICSkillsTab.html',
+
         'systems/shadowrun5e/dist/templates/actor/tabs/vehicle/VehicleSkillsTab.html',
         'systems/shadowrun5e/dist/templates/actor/tabs/vehicle/VehicleMatrixTab.html',
 
@@ -27,18 +30,27 @@ export const preloadHandlebarsTemplates = async () => {
         'systems/shadowrun5e/dist/templates/actor/parts/ActionList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/ContactList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/SinAndLifestyleList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/VehicleList.html',
 
         // magic
         'systems/shadowrun5e/dist/templates/actor/parts/magic/AdeptPowerList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/magic/SpellList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/magic/SpellAndAdeptPowerList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/magic/SpiritOptions.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/magic/SpiritList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/magic/SustainedList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/magic/MetamagicList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/magic/FocusList.html',
 
         // matrix
         'systems/shadowrun5e/dist/templates/actor/parts/matrix/ProgramList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/matrix/MarksList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/matrix/DeviceConfigurations.html',
         'systems/shadowrun5e/dist/templates/actor/parts/matrix/ComplexFormList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/matrix/MatrixAttribute.html',
         'systems/shadowrun5e/dist/templates/actor/parts/matrix/SpritePowerList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/matrix/EchoList.html',
+        'systems/shadowrun5e/dist/templates/actor/parts/matrix/SpriteList.html',
         'systems/shadowrun5e/dist/templates/actor/parts/matrix/DeviceRating.html',
 
         // attributes
@@ -62,6 +74,8 @@ export const preloadHandlebarsTemplates = async () => {
         'systems/shadowrun5e/dist/templates/actor-limited/sprite.html',
         'systems/shadowrun5e/dist/templates/actor-limited/vehicle.html',
         'systems/shadowrun5e/dist/templates/actor-limited/critter.html',
+        'systems/shadowrun5e/dist/templates/actor-limited/host.html',
+        'systems/shadowrun5e/dist/templates/actor-limited/ic.html',
         'systems/shadowrun5e/dist/templates/actor-limited/parts/Header.html',
         'systems/shadowrun5e/dist/templates/actor-limited/parts/MiscCharacter.html',
         'systems/shadowrun5e/dist/templates/actor-limited/parts/MiscSpirit.html',
@@ -89,9 +103,14 @@ export const preloadHandlebarsTemplates = async () => {
         'systems/shadowrun5e/dist/templates/item/parts/ammo.html',
         'systems/shadowrun5e/dist/templates/item/parts/modification.html',
         'systems/shadowrun5e/dist/templates/item/parts/program.html',
+        'systems/shadowrun5e/dist/templates/item/parts/focus.html',
         'systems/shadowrun5e/dist/templates/item/parts/critter_power.html',
         'systems/shadowrun5e/dist/templates/rolls/parts/parts-list.html',
         'systems/shadowrun5e/dist/templates/rolls/parts/Damage.html',
+        'systems/shadowrun5e/dist/templates/rolls/convergence-card.html',
+        'systems/shadowrun5e/dist/templates/rolls/mark-placement-card.html',
+        'systems/shadowrun5e/dist/templates/rolls/spell-result-card.html',
+        'systems/shadowrun5e/dist/templates/rolls/blast-card.html',
 
         // to wrap the bodies of tabs
         'systems/shadowrun5e/dist/templates/common/TabWrapper.html',
@@ -119,6 +138,12 @@ export const preloadHandlebarsTemplates = async () => {
 
         // dialogs
         'systems/shadowrun5e/dist/templates/apps/dialogs/damage-application.html',
+        'systems/shadowrun5e/dist/templates/apps/dialogs/mark-placement.html',
+        'systems/shadowrun5e/dist/templates/apps/dialogs/compile-sprite.html',
+        'systems/shadowrun5e/dist/templates/apps/dialogs/summon-spirit.html',
+        'systems/shadowrun5e/dist/templates/apps/dialogs/bind-spirit.html',
+        'systems/shadowrun5e/dist/templates/apps/dialogs/chummer-import-preview.html',
+        'systems/shadowrun5e/dist/templates/apps/dialogs/chummer-import-report.html',
     ];
 
     return loadTemplates(templatePaths);
@@ -73,6 +73,15 @@ export const registerItemLineHelpers = () => {
             case 'sprite_power':
                 addIcon.title = game.i18n.localize('SR5.CreateItemSpritePower');
                 return [addIcon];
+            case 'echo':
+                addIcon.title = game.i18n.localize('SR5.CreateItemEcho');
+                return [addIcon];
+            case 'metamagic':
+                addIcon.title = game.i18n.localize('SR5.CreateItemMetamagic');
+                return [addIcon];
+            case 'focus':
+                addIcon.title = game.i18n.localize('SR5.CreateItemFocus');
+                return [addIcon];
             default:
                 return [];
         }
@@ -202,6 +211,14 @@ export const registerItemLineHelpers = () => {
                         },
                     },
                 ];
+            case 'focus':
+                return [
+                    {
+                        text: {
+                            text: game.i18n.localize('SR5.Force'),
+                        },
+                    },
+                ];
             default:
                 return [];
         }
@@ -292,6 +309,14 @@ export const registerItemLineHelpers = () => {
                         },
                     },
                 ];
+            case 'focus':
+                return [
+                    {
+                        text: {
+                            text: item.data.force,
+                        },
+                    },
+                ];
 
             case 'adept_power':
                 return [
@@ -409,6 +434,7 @@ export const registerItemLineHelpers = () => {
             case 'cyberware':
             case 'bioware':
             case 'weapon':
+            case 'focus':
                 icons.unshift(equipIcon);
         }
 
@@ -292,6 +292,18 @@ export class Helpers {
         return token.getActor();
     }
 
+    /**
+     * Get an actor by its uuid, which can be a world or a token actor.
+     * @param uuid An actor uuid, see Actor#uuid
+     */
+    static async getActorFromUuid(uuid: string): Promise<SR5Actor | undefined> {
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        const document = await fromUuid(uuid) as any;
+        if (!document) return;
+        // Token actors might resolve to their token document.
+        return (document.documentName === 'Token' ? document.actor : document) as SR5Actor;
+    }
+
     static getUserTargets(user?: User|null): Token[] {
         user = user ? user : game.user;
 
@@ -316,6 +328,17 @@ export class Helpers {
         const origin = new PIXI.Point(...canvas.grid.getCenter(tokenOrigin.data.x, tokenOrigin.data.y));
         const dest = new PIXI.Point(...canvas.grid.getCenter(tokenDest.data.x, tokenDest.data.y));
 
+        return Helpers.measurePointDistance(origin, dest);
+    }
+
+    /** Measure the distance in meters between two canvas positions.
+     *
+     * @param origin A canvas position in pixels.
+     * @param dest A canvas position in pixels.
+     */
+    static measurePointDistance(origin: PIXI.Point, dest: PIXI.Point): number {
+        if (!canvas || !canvas.ready || !canvas.scene) return 0;
+
         // TODO: Used to be const distanceInGridUnits = canvas.grid.measureDistance(origin, dest, {gridSpaces: true});
         //       Double Check for errors.
         const distanceInGridUnits = canvas.grid.measureDistance(origin, dest);
@@ -323,6 +346,23 @@ export class Helpers {
         return Helpers.convertLengthUnit(distanceInGridUnits, sceneUnit);
     }
 
+    /** Convert a length in meters into canvas pixels of the current scene.
+     *
+     * @param length A length in meters.
+     */
+    static convertMetersToPixels(length: number): number {
+        if (!canvas || !canvas.ready || !canvas.scene) return 0;
+
+        const sceneUnit = canvas.scene.data.gridUnits.toLowerCase();
+        if (!LENGTH_UNIT_TO_METERS_MULTIPLIERS.hasOwnProperty(sceneUnit)) {
+            console.error(`Distance can't be converted from ${LENGTH_UNIT} to ${sceneUnit}`);
+            return 0;
+        }
+
+        const lengthInGridUnits = length / LENGTH_UNIT_TO_METERS_MULTIPLIERS[sceneUnit];
+        return lengthInGridUnits / canvas.dimensions.distance * canvas.dimensions.size;
+    }
+
     static convertLengthUnit(length: number, fromUnit: string): number {
         //@ts-ignore
         fromUnit = fromUnit.toLowerCase();
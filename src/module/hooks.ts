@@ -19,6 +19,7 @@ import { Import } from './importer/apps/import-form';
 import {ChangelogApplication} from "./apps/ChangelogApplication";
 import {EnvModifiersApplication} from "./apps/EnvModifiersApplication";
 import {quenchRegister} from "../test/quench";
+import {SocketMessage} from "./sockets";
 
 // Redeclare SR5config as a global as foundry-vtt-types CONFIG with SR5 property causes issues.
 // TODO: Figure out how to change global CONFIG type
@@ -38,6 +39,13 @@ export class HooksManager {
         Hooks.on('renderSceneControls', HooksManager.renderSceneControls);
         Hooks.on('getSceneControlButtons', HooksManager.getSceneControlButtons);
         Hooks.on('getCombatTrackerEntryContext', SR5Combat.addCombatTrackerContextOptions);
+        Hooks.on('renderCombatTracker', SR5Combat.renderCombatTracker);
+        Hooks.on('updateActor', SR5Combat.onUpdateActor);
+        Hooks.on('updateActor', SR5Actor.onUpdateActor);
+        Hooks.on('sightRefresh', SR5Actor.onSightRefresh);
+        Hooks.on('updateItem', SR5Combat.onUpdateItem);
+        Hooks.on('updateCombat', SR5Combat.onUpdateCombat);
+        Hooks.on('deleteCombat', SR5Combat.onDeleteCombat);
         Hooks.on('renderItemDirectory', HooksManager.renderItemDirectory);
         Hooks.on('renderTokenHUD', EnvModifiersApplication.addTokenHUDFields);
 
@@ -100,6 +108,9 @@ ___________________
     }
 
     static async ready() {
+        SocketMessage.registerListeners();
+        SR5Actor.registerSocketHandlers();
+
         if (game.user?.isGM) {
             await Migrator.BeginMigration();
 
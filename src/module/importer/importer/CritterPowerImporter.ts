@@ -57,6 +57,8 @@ export class CritterPowerImporter extends DataImporter {
                     },
                     alt_mod: 0,
                     dice_pool_mod: [],
+                    marks: {required: 0, place: false},
+                    illegal: false,
                 },
                 armor: {
                     value: 0,
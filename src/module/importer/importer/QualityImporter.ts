@@ -56,6 +56,8 @@ export class QualityImporter extends DataImporter {
                     },
                     alt_mod: 0,
                     dice_pool_mod: [],
+                    marks: {required: 0, place: false},
+                    illegal: false,
                 },
                 type: '',
             },
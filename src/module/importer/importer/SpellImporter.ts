@@ -61,6 +61,8 @@ export class SpellImporter extends DataImporter {
                     },
                     alt_mod: 0,
                     dice_pool_mod: [],
+                    marks: {required: 0, place: false},
+                    illegal: false,
                 },
                 drain: 0,
                 category: '',
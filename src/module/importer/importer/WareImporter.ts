@@ -95,6 +95,8 @@ export class WareImporter extends DataImporter {
                     },
                     alt_mod: 0,
                     dice_pool_mod: [],
+                    marks: {required: 0, place: false},
+                    illegal: false,
                 },
                 grade: 'standard',
                 essence: 0,
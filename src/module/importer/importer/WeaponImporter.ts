@@ -61,6 +61,8 @@ export class WeaponImporter extends DataImporter {
                     },
                     alt_mod: 0,
                     dice_pool_mod: [],
+                    marks: {required: 0, place: false},
+                    illegal: false,
                 },
                 technology: {
                     rating: 1,
@@ -125,6 +127,7 @@ export class WeaponImporter extends DataImporter {
                         radius: 0,
                         dropoff: 0,
                     },
+                    scatter: 'standard',
                 },
                 category: 'range',
                 subcategory: '',
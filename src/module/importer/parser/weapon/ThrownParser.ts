@@ -105,6 +105,7 @@ export class ThrownParser extends WeaponParserBase {
         }
 
         data.data.thrown.blast = this.GetBlast(jsonData, data);
+        data.data.thrown.scatter = ImportHelper.StringValue(jsonData, 'range') === 'Aerodynamic Grenade' ? 'aerodynamic' : 'standard';
 
         return data;
     }
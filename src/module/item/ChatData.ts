@@ -3,6 +3,7 @@ import DeviceData = Shadowrun.DeviceData;
 import { SR5Item } from './SR5Item';
 import AmmoData = Shadowrun.AmmoData;
 import {SR5} from "../config";
+import {MagicRules} from "../rules/MagicRules";
 
 export const ChatData = {
     action: (data, labels, props) => {
@@ -144,6 +145,10 @@ export const ChatData = {
 
     program: (data, labels, props) => {
         props.push(game.i18n.localize(SR5.programTypes[data.type]));
+        if (data.type === 'autosoft' && data.autosoft) {
+            const autosoft = game.i18n.localize(SR5.autosoftTypes[data.autosoft.type]);
+            props.push(data.autosoft.target ? `${autosoft} [${data.autosoft.target}]` : autosoft);
+        }
     },
 
     complex_form: (data, labels, props) => {
@@ -185,6 +190,22 @@ export const ChatData = {
         props.push(Helpers.label(data.type));
     },
 
+    echo: (data, labels, props) => {
+        if (data.attribute && data.bonus) props.push(`${Helpers.label(data.attribute)} +${data.bonus}`);
+        if (data.initiative_dice) props.push(`${game.i18n.localize('SR5.Echo.InitiativeDice')} +${data.initiative_dice}`);
+    },
+
+    focus: (data, labels, props) => {
+        if (data.type) props.push(game.i18n.localize(SR5.focusTypes[data.type]));
+        props.push(`${game.i18n.localize('SR5.Force')} ${data.force}`);
+        props.push(`${game.i18n.localize('SR5.Focus.BondingKarma')} ${MagicRules.focusBondingKarma(data.type, data.force)}`);
+        if (data.bonded) props.push(game.i18n.localize('SR5.Focus.Bonded'));
+    },
+
+    metamagic: (data, labels, props) => {
+        if (data.type) props.push(game.i18n.localize(SR5.metamagicTypes[data.type]));
+    },
+
     sprite_power: (data, labels, props) => {
         // add action data
         ChatData.action(data, labels, props);
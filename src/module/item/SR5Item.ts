@@ -3,8 +3,9 @@ import {SR5Actor} from '../actor/SR5Actor';
 import {ActionTestData, ShadowrunItemDialog} from '../apps/dialogs/ShadowrunItemDialog';
 import {ChatData} from './ChatData';
 import {ShadowrunRoll, ShadowrunRoller, Test} from '../rolls/ShadowrunRoller';
-import {createItemChatMessage} from '../chat';
+import {createItemChatMessage, createMarkPlacementChatMessage} from '../chat';
 import {DEFAULT_ROLL_NAME, FLAGS, SYSTEM_NAME} from '../constants';
+import {SocketMessage} from '../sockets';
 import {SR5ItemDataWrapper} from '../data/SR5ItemDataWrapper';
 import {PartsList} from '../parts/PartsList';
 import ModList = Shadowrun.ModList;
@@ -28,10 +29,13 @@ import AmmoData = Shadowrun.AmmoData;
 import TechnologyPartData = Shadowrun.TechnologyPartData;
 import TechnologyData = Shadowrun.TechnologyData;
 import RangeWeaponData = Shadowrun.RangeWeaponData;
+import RangeData = Shadowrun.RangeData;
 import SpellRange = Shadowrun.SpellRange;
 import CritterPowerRange = Shadowrun.CritterPowerRange;
 import {ActionFlow} from "./flows/ActionFlow";
 import {SkillFlow} from "../actor/flows/SkillFlow";
+import {CombatRules} from "../rules/CombatRules";
+import {MatrixRules} from "../rules/MatrixRules";
 import {SR5} from "../config";
 import ShadowrunItemData = Shadowrun.ShadowrunItemData;
 import ActionItemData = Shadowrun.ActionItemData;
@@ -43,15 +47,20 @@ import ContactItemData = Shadowrun.ContactItemData;
 import CritterPowerItemData = Shadowrun.CritterPowerItemData;
 import CyberwareItemData = Shadowrun.CyberwareItemData;
 import DeviceItemData = Shadowrun.DeviceItemData;
+import DeviceAttributeAssignment = Shadowrun.DeviceAttributeAssignment;
+import DeviceConfiguration = Shadowrun.DeviceConfiguration;
 import EquipmentItemData = Shadowrun.EquipmentItemData;
 import LifestyleItemData = Shadowrun.LifestyleItemData;
 import ModificationItemData = Shadowrun.ModificationItemData;
 import ProgramItemData = Shadowrun.ProgramItemData;
+import MetamagicItemData = Shadowrun.MetamagicItemData;
+import FocusItemData = Shadowrun.FocusItemData;
 import QualityItemData = Shadowrun.QualityItemData;
 import SinItemData = Shadowrun.SinItemData;
 import SpellItemData = Shadowrun.SpellItemData;
 import SpritePowerItemData = Shadowrun.SpritePowerItemData;
 import WeaponItemData = Shadowrun.WeaponItemData;
+import ScatterType = Shadowrun.ScatterType;
 
 /**
  * Implementation of Shadowrun5e items (owned, unowned and embedded).
@@ -356,15 +365,30 @@ export class SR5Item extends Item<ShadowrunItemData> {
         const dontRollTest = event?.shiftKey || !this.hasRoll;
         if (dontRollTest) return await this.postItemCard();
 
+        // Respect the actions left within the actors action phase.
+        const actionType = this.getActionType();
+        if (!this.actor.canTakeAction(actionType)) return;
+
+        this._warnAboutMissingMarks();
+
+        if (this.isAstralCombat() && !this.actor.isAstral()) {
+            ui.notifications?.warn(game.i18n.localize('SR5.Warnings.NotOnAstralPlane'));
+            return;
+        }
+
         const dialog = await ShadowrunItemDialog.create(this, event);
+        let actionTestData;
         // Some items might not have an additional dialog.
-        if (!dialog) return await this.rollTest(event);
+        if (dialog) {
+            actionTestData = await dialog.select();
+            if (dialog.canceled) return;
+        }
 
-        const actionTestData = await dialog.select();
-        if (dialog.canceled) return;
+        const roll = await this.rollTest(event, actionTestData);
+        if (roll) await this.actor.takeAction(actionType);
 
-        return await this.rollTest(event, actionTestData);
-}
+        return roll;
+    }
 
     getChatData(htmlOptions?) {
         const data = duplicate(this.data.data);
@@ -495,6 +519,30 @@ export class SR5Item extends Item<ShadowrunItemData> {
         }
     }
 
+    /**
+     * Thrown weapon ranges in meters, multiplied by the actors range attribute.
+     */
+    getThrownRanges(): RangeData | undefined {
+        if (!this.isThrownWeapon()) return;
+
+        const {ranges} = (this.data.data as WeaponData).thrown;
+        const multiplier = ranges.attribute && this.actor ? this.actor.getAttribute(ranges.attribute).value : 1;
+
+        return {
+            short: ranges.short * multiplier,
+            medium: ranges.medium * multiplier,
+            long: ranges.long * multiplier,
+            extreme: ranges.extreme * multiplier
+        };
+    }
+
+    /**
+     * The grenade type determining the scatter dice.
+     */
+    getScatterType(): ScatterType {
+        return (this.data.data as WeaponData).thrown?.scatter || 'standard';
+    }
+
     getEquippedAmmo(): SR5Item {
         const equippedAmmos = (this.items || []).filter((item) =>
             item.isAmmo() &&
@@ -541,6 +589,8 @@ export class SR5Item extends Item<ShadowrunItemData> {
             const { ammo } = weapon.data;
             ammo.current.value = Math.max(0, ammo.current.value - fired);
 
+            if (this.actor) await this.actor.addAccumulatedRecoil(fired);
+
             return await this.update(weapon);
         }
     }
@@ -614,7 +664,7 @@ export class SR5Item extends Item<ShadowrunItemData> {
         await this.update(sin);
     }
 
-    getRollPartsList(): ModList<number> {
+    getRollPartsList(actionTestData?: ActionTestData): ModList<number> {
         // we only have a roll if we have an action or an actor
         const action = this.getAction();
         if (!action || !this.actor) return [];
@@ -622,9 +672,13 @@ export class SR5Item extends Item<ShadowrunItemData> {
         // @ts-ignore
         const parts = new PartsList(duplicate(this.getModifierList()));
 
-        const skill = this.actor.findActiveSkill(this.getActionSkill());
-        const attribute = this.actor.findAttribute(this.getActionAttribute());
-        const attribute2 = this.actor.findAttribute(this.getActionAttribute2());
+        // Vehicle weapons are fired by the driver or autopilot, instead of using the weapons own skill and attribute.
+        const isVehicleWeapon = this.isVehicleWeapon();
+        const skill = isVehicleWeapon ? undefined : this.actor.findActiveSkill(this.getActionSkill());
+        const attribute = isVehicleWeapon ? undefined : this.actor.findAttribute(this.getActionAttribute());
+        const attribute2 = isVehicleWeapon ? undefined : this.actor.findAttribute(this.getActionAttribute2());
+
+        if (isVehicleWeapon) this.actor._addVehicleGunneryParts(parts, this.name as string);
 
         if (attribute && attribute.label) parts.addPart(attribute.label, attribute.value);
 
@@ -637,13 +691,22 @@ export class SR5Item extends Item<ShadowrunItemData> {
             parts.addPart(attribute2.label, attribute2.value);
         }
 
-        const spec = this.getActionSpecialization();
+        const spec = isVehicleWeapon ? undefined : this.getActionSpecialization();
         if (spec) parts.addUniquePart(spec, 2);
 
         //@ts-ignore parseInt does allow for number type parameter.
         const mod = parseInt(this.data.data.action.mod || 0);
         if (mod) parts.addUniquePart('SR5.ItemMod', mod);
 
+        const marks = actionTestData?.marks?.marks;
+        if (marks) {
+            const marksMod = MatrixRules.markPlacementModifier(marks);
+            if (marksMod) parts.addUniquePart('SR5.Marks.Placing', marksMod);
+
+            const programBonus = this.actor.getProgramBonus('place_marks');
+            if (programBonus) parts.addUniquePart(SR5.programEffects.place_marks, programBonus);
+        }
+
         const atts: (AttributeField | SkillField)[] | boolean = [];
         if (attribute !== undefined) atts.push(attribute);
         if (attribute2 !== undefined) atts.push(attribute2);
@@ -656,11 +719,16 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return parts.list;
     }
 
+    /**
+     * Progressive recoil includes all bullets fired within consecutive action phases.
+     * @PDF SR5#175 'Recoil'
+     */
     calculateRecoil() {
         const lastFireMode = this.getLastFireMode();
         if (!lastFireMode) return 0;
         if (lastFireMode.value === 20) return 0;
-        return Math.min(this.getRecoilCompensation(true) - (this.getLastFireMode()?.value || 0), 0);
+        const accumulated = this.actor ? this.actor.getAccumulatedRecoil() : 0;
+        return CombatRules.recoilModifier(this.getRecoilCompensation(true), accumulated, lastFireMode.value || 0);
     }
 
     _addWeaponParts(parts: PartsList<number>) {
@@ -816,13 +884,67 @@ export class SR5Item extends Item<ShadowrunItemData> {
 
     async rollTestType(type: string, attack: AttackData, event, target: SR5Actor) {
         if (type === 'opposed') {
-            await this.rollOpposedTest(target, attack, event);
+            const roll = await this.rollOpposedTest(target, attack, event);
+            if (roll) {
+                await this.placeMarksAfterOpposedTest(target, attack, roll);
+                await this.addOverwatchScoreAfterOpposedTest(roll);
+            }
         }
         if (type === 'action') {
             await this.castAction(event);
         }
     }
 
+    /**
+     * A successful Hack on the Fly or Brute Force places marks onto the defending persona or one of its devices.
+     *
+     * The opposed test is rolled by the defender, so the owner of the acting persona is asked to place the marks
+     * by chat message.
+     *
+     * @param target The actor that defended against this matrix action.
+     * @param attack The attack data of this matrix action.
+     * @param roll The opposed test roll of the defender.
+     */
+    async placeMarksAfterOpposedTest(target: SR5Actor, attack: AttackData, roll: ShadowrunRoll) {
+        if (!attack?.marks || attack.hits === undefined) return;
+        if (!CombatRules.attackHits(attack.hits, roll.hits)) return;
+
+        await createMarkPlacementChatMessage(this.actor, target, attack.marks);
+    }
+
+    /**
+     * Illegal matrix actions add the defenders hits to the overwatch score of the acting persona.
+     *
+     * The opposed test is rolled by the defender, so the score and a possible convergence are handled by the GM.
+     *
+     * @PDF SR5#231 'Overwatch Score and Convergence'
+     * @param roll The opposed test roll of the defender.
+     */
+    async addOverwatchScoreAfterOpposedTest(roll: ShadowrunRoll) {
+        if (!this.actor || !this.isIllegalAction()) return;
+        if (!roll.hits) return;
+
+        await SocketMessage.emitForGM(FLAGS.AddOverwatchScore, {actorUuid: this.actor.uuid, value: roll.hits});
+    }
+
+    /**
+     * Warn about missing marks on a single targeted persona, before rolling a matrix action.
+     */
+    _warnAboutMissingMarks() {
+        const required = this.getRequiredMarks();
+        if (!required) return;
+
+        const targets = Helpers.getUserTargets();
+        if (targets.length !== 1) return;
+        const target = targets[0].actor as SR5Actor;
+        if (!target) return;
+
+        const marks = this.actor.getMarksOn(target.uuid);
+        if (MatrixRules.hasRequiredMarks(marks, required)) return;
+
+        ui.notifications?.warn(game.i18n.format('SR5.Warnings.MissingMarks', {required, marks, name: target.name}));
+    }
+
     /**
      * Rolls a test using the latest stored data on the item (force, fireMode, level)
      * @param event - mouse event
@@ -833,7 +955,7 @@ export class SR5Item extends Item<ShadowrunItemData> {
         const roll = await ShadowrunRoller.itemRoll(event, this, actionTestData);
         if (!roll) return;
 
-        await ShadowrunRoller.resultingItemRolls(event, this, actionTestData);
+        await ShadowrunRoller.resultingItemRolls(event, this, actionTestData, roll);
 
         return roll;
     }
@@ -1046,6 +1168,27 @@ export class SR5Item extends Item<ShadowrunItemData> {
         ui.PDFoundry.openPDFByCode(code, { page: parseInt(page) });
     }
 
+    /**
+     * Matrix actions can need marks on their target.
+     */
+    getRequiredMarks(): number {
+        return this.getAction()?.marks?.required ?? 0;
+    }
+
+    /**
+     * Matrix actions like Hack on the Fly place marks on success.
+     */
+    placesMarks(): boolean {
+        return !!this.getAction()?.marks?.place;
+    }
+
+    /**
+     * Illegal matrix actions raise the overwatch score of the acting persona.
+     */
+    isIllegalAction(): boolean {
+        return !!this.getAction()?.illegal;
+    }
+
     _canDealDamage(): boolean {
         // NOTE: Double negation to force boolean comparison casting.
         const action = this.getAction();
@@ -1057,6 +1200,15 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return this.wrapper.getAction();
     }
 
+    /**
+     * See SR5.actionTypes for possible values.
+     */
+    getActionType(): string {
+        const action = this.getAction();
+        if (!action) return '';
+        return action.type;
+    }
+
     getExtended(): boolean {
         const action = this.getAction();
         if (!action) return false;
@@ -1077,7 +1229,9 @@ export class SR5Item extends Item<ShadowrunItemData> {
     }
 
     getAttackData(hits: number, actionTestData?: ActionTestData): AttackData | undefined {
-        if (!this._canDealDamage()) {
+        // Matrix actions placing marks need their hits for the opposed test, even without damage.
+        const marks = this.placesMarks() ? actionTestData?.marks?.marks : undefined;
+        if (!this._canDealDamage() && !marks) {
             return;
         }
 
@@ -1120,6 +1274,8 @@ export class SR5Item extends Item<ShadowrunItemData> {
             data.accuracy = this.getActionLimit();
         }
 
+        if (marks) data.marks = marks;
+
         const blastData = this.getBlastData(actionTestData);
         if (blastData) data.blast = blastData;
 
@@ -1146,18 +1302,23 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return DEFAULT_ROLL_NAME;
     }
 
-    getLimit(): LimitField | undefined {
+    getLimit(actionTestData?: ActionTestData): LimitField | undefined {
         // @ts-ignore // TODO: This should use this.getAction(). However action.limit doesn't contain label field.
         const limit = duplicate(this.data.data.action?.limit);
         if (!limit) return undefined;
+
+        // Spellcasting is always limited by Force, regardless of any limit configured on the action.
+        // @PDF SR5#281 'Spellcasting'
+        if (this.isSpell()) {
+            const force = actionTestData?.spell?.force ?? this.getLastSpellForce().value;
+            return {...limit, attribute: '', base: force, value: force, mod: [], label: 'SR5.Force'};
+        }
+
         // go through and set the label correctly
         if (this.data.type === 'weapon') {
             limit.label = 'SR5.Accuracy';
         } else if (limit?.attribute) {
             limit.label = SR5.limits[limit.attribute];
-        } else if (this.isSpell()) {
-            limit.value = this.getLastSpellForce().value;
-            limit.label = 'SR5.Force';
         } else if (this.isComplexForm()) {
             limit.value = this.getLastComplexFormLevel().value;
             limit.label = 'SR5.Level';
@@ -1165,6 +1326,12 @@ export class SR5Item extends Item<ShadowrunItemData> {
             limit.label = 'SR5.Limit';
         }
 
+        // sensor guided vehicle weapons use the vehicles sensor instead of their accuracy
+        if (this.isVehicleWeapon()) {
+            const sensor = this.actor.getVehicleGunneryLimit();
+            if (sensor) return sensor;
+        }
+
         // adjust limit value for actor data
         if (limit.attribute) {
             const att = this.actor.findLimit(limit.attribute);
@@ -1231,6 +1398,10 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return this.wrapper.isGrenade();
     }
 
+    isThrownWeapon(): boolean {
+        return this.wrapper.isThrownWeapon();
+    }
+
     isWeapon(): boolean {
         return this.wrapper.isWeapon();
     }
@@ -1259,6 +1430,34 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return this.wrapper.isDirectCombatSpell();
     }
 
+    isSustained(): boolean {
+        return this.wrapper.isSustained();
+    }
+
+    isAstralCombat(): boolean {
+        return this.wrapper.isAstralCombat();
+    }
+
+    isMetamagic(): boolean {
+        return this.wrapper.isMetamagic();
+    }
+
+    asMetamagicData(): MetamagicItemData | undefined {
+        if (this.isMetamagic()) {
+            return this.data as MetamagicItemData;
+        }
+    }
+
+    isFocus(): boolean {
+        return this.wrapper.isFocus();
+    }
+
+    asFocusData(): FocusItemData | undefined {
+        if (this.isFocus()) {
+            return this.data as FocusItemData;
+        }
+    }
+
     isIndirectCombatSpell(): boolean {
         return this.wrapper.isIndirectCombatSpell();
     }
@@ -1271,6 +1470,13 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return this.wrapper.isPhysicalSpell();
     }
 
+    /**
+     * Weapons mounted on a vehicle are fired using vehicle gunnery.
+     */
+    isVehicleWeapon(): boolean {
+        return this.isWeapon() && !!this.actor?.isVehicle();
+    }
+
     isRangedWeapon(): boolean {
         return this.wrapper.isRangedWeapon();
     }
@@ -1343,6 +1549,46 @@ export class SR5Item extends Item<ShadowrunItemData> {
         }
     }
 
+    /**
+     * The matrix attributes currently assigned to each cyberdeck attribute.
+     */
+    getDeviceAttributeAssignment(): DeviceAttributeAssignment | undefined {
+        const device = this.asDeviceData();
+        if (!device) return;
+
+        const {att1, att2, att3, att4} = device.data.atts;
+        return {att1: att1.att, att2: att2.att, att3: att3.att, att4: att4.att};
+    }
+
+    async setDeviceAttributeAssignment(atts: DeviceAttributeAssignment) {
+        const updateData = {};
+        for (const [key, att] of Object.entries(atts)) {
+            updateData[`data.atts.${key}.att`] = att;
+        }
+        await this.update(updateData);
+    }
+
+    getDeviceConfigurations(): DeviceConfiguration[] {
+        return this.asDeviceData()?.data.configurations ?? [];
+    }
+
+    /**
+     * Save the current cyberdeck attribute assignment to switch back to it later on.
+     * @param name The configuration name shown to the user.
+     */
+    async saveDeviceConfiguration(name: string) {
+        const atts = this.getDeviceAttributeAssignment();
+        if (!atts) return;
+
+        const configurations = [...this.getDeviceConfigurations(), {name, atts}];
+        await this.update({'data.configurations': configurations});
+    }
+
+    async deleteDeviceConfiguration(index: number) {
+        const configurations = this.getDeviceConfigurations().filter((_, i) => i !== index);
+        await this.update({'data.configurations': configurations});
+    }
+
     isEquipment(): boolean {
         return this.wrapper.isEquipment();
     }
@@ -1361,6 +1607,18 @@ export class SR5Item extends Item<ShadowrunItemData> {
         return this.wrapper.isCyberdeck();
     }
 
+    isRCC(): boolean {
+        return this.wrapper.isRCC();
+    }
+
+    isAutosoft(): boolean {
+        return this.wrapper.isAutosoft();
+    }
+
+    isRunningProgram(): boolean {
+        return this.wrapper.isRunningProgram();
+    }
+
     getBookSource(): string {
         return this.wrapper.getBookSource();
     }
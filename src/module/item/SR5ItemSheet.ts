@@ -1,6 +1,7 @@
 import { Helpers } from '../helpers';
 import { SR5Item } from './SR5Item';
 import {SR5} from "../config";
+import {MagicRules} from "../rules/MagicRules";
 
 /**
  * Extend the basic ItemSheet with some very simple modifications
@@ -91,10 +92,25 @@ export class SR5ItemSheet extends ItemSheet<any, any> {
         data['activeSkills'] = this._getSortedActiveSkillsForSelect();
         data['attributes'] = this._getSortedAttributesForSelect();
         data['limits'] = this._getSortedLimitsForSelect();
+        if (this.item.isFocus()) {
+            data['bondingKarma'] = MagicRules.focusBondingKarma(itemData.type, itemData.force);
+            data['meleeWeapons'] = this._getMeleeWeaponsForSelect();
+        }
 
         return data;
     }
 
+    /**
+     * Weapon foci enchant one of the melee weapons owned by the same actor.
+     */
+    _getMeleeWeaponsForSelect(): Record<string, string> {
+        const weapons = this.item.actor?.items.filter(item => item.isMeleeWeapon()) ?? [];
+        return weapons.reduce((select, weapon) => {
+            select[weapon.id as string] = weapon.name as string;
+            return select;
+        }, {});
+    }
+
     /**
      * Action limits currently contain limits for all action types. Be it matrix, magic or physical.
      */
@@ -8,12 +8,13 @@ import { Helpers } from '../helpers';
 import { SR5Actor } from '../actor/SR5Actor';
 import { SR5Item } from '../item/SR5Item';
 import {
-    createRollChatMessage, createTargetChatMessage, RollTargetChatMessage,
+    createRollChatMessage, createSpellResultChatMessage, createTargetChatMessage, RollTargetChatMessage,
     TargetChatMessageOptions
 } from '../chat';
 import {CORE_FLAGS, CORE_NAME, DEFAULT_ROLL_NAME, FLAGS, SR, SYSTEM_NAME} from '../constants';
 import { PartsList } from '../parts/PartsList';
-import {ActionTestData} from "../apps/dialogs/ShadowrunItemDialog";
+import {ActionTestData, SpellActionTestData} from "../apps/dialogs/ShadowrunItemDialog";
+import {MagicRules} from "../rules/MagicRules";
 import BlastData = Shadowrun.BlastData;
 import FireModeData = Shadowrun.FireModeData;
 import DrainData = Shadowrun.DrainData;
@@ -21,6 +22,7 @@ import {ShadowrunTestDialog} from "../apps/dialogs/ShadowrunTestDialog";
 import ModifiedDamageData = Shadowrun.ModifiedDamageData;
 import LimitField = Shadowrun.LimitField;
 import CombatData = Shadowrun.CombatData;
+import SpellData = Shadowrun.SpellData;
 
 // item, actor, dicePool, attack, defense, spell, form
 export type Test =  {
@@ -180,8 +182,9 @@ export class ShadowrunRoller {
         const title = item.getRollName();
         const actor = item.actor;
         const attack =  item.getAttackData(0, actionTestData);
-        const parts = item.getRollPartsList();
-        const limit = item.getLimit();
+        const parts = item.getRollPartsList(actionTestData);
+        parts.push(...actor.getItemFocusParts(item));
+        const limit = item.getLimit(actionTestData);
         const extended = item.getExtended();
         const previewTemplate = item.hasTemplate;
         const description = item.getChatData();
@@ -240,7 +243,7 @@ export class ShadowrunRoller {
         return roll;
     }
 
-    static async resultingItemRolls(event, item: SR5Item, actionTestData? : ActionTestData) {
+    static async resultingItemRolls(event, item: SR5Item, actionTestData? : ActionTestData, roll?: ShadowrunRoll) {
         // Cast resulting tests from above Success Test depending on item type.
         if (item.isComplexForm() && actionTestData?.complexForm) {
             const level = actionTestData.complexForm.level;
@@ -248,6 +251,8 @@ export class ShadowrunRoller {
             const minFade = 2;
             const totalFade = Math.max(fade, minFade);
             await item.actor.rollFade({ event }, totalFade);
+
+            if (item.isSustained() && roll && roll.hits > 0) await item.actor.addSustainedEffect(item, level);
         }
         else if (item.isSpell()) {
             // if (item.isCombatSpell() && roll) {
@@ -256,11 +261,15 @@ export class ShadowrunRoller {
             if (actionTestData?.spell) {
                 const force = actionTestData.spell.force;
                 const reckless = actionTestData.spell.reckless;
-                const drain = item.getDrain() + force + (reckless ? 3 : 0);
-                const minDrain = 2;
-                const totalDrain = Math.max(drain, minDrain);
+                const totalDrain = MagicRules.spellDrain(item.getDrain(), force, reckless);
+                const magic = Number(item.actor.getAttribute('magic').value);
+                const damageType = MagicRules.spellDrainDamageType(force, totalDrain, magic);
+
+                if (roll) await ShadowrunRoller.spellResult(item, roll, actionTestData.spell);
+
+                await item.actor.rollDrain({ event }, totalDrain, damageType);
 
-                await item.actor.rollDrain({ event }, totalDrain);
+                if (item.isSustained() && roll && roll.hits > 0) await item.actor.addSustainedEffect(item, force);
             }
         }
         else if (item.isWeapon()) {
@@ -272,6 +281,24 @@ export class ShadowrunRoller {
         }
     }
 
+    /**
+     * Detection and manipulation spells resolve their hits against a threshold, instead of dealing damage.
+     *
+     * @PDF SR5#285 'Detection Spells'
+     * @PDF SR5#288 'Manipulation Spells'
+     */
+    static async spellResult(item: SR5Item, roll: ShadowrunRoll, spell: SpellActionTestData) {
+        const spellData = item.data.data as SpellData;
+        if (spellData.category !== 'detection' && spellData.category !== 'manipulation') return;
+
+        const threshold = MagicRules.objectResistanceThreshold(spell.objectResistance);
+        const success = MagicRules.spellSucceeds(roll.hits, threshold);
+        const netHits = MagicRules.spellNetHits(roll.hits, threshold);
+        const detection = spellData.category === 'detection' ? MagicRules.detectionResult(netHits) : '';
+
+        await createSpellResultChatMessage(item, {hits: roll.hits, threshold, netHits, success, detection});
+    }
+
     static shadowrunFormula({
         parts: partsProps,
         limit,
@@ -0,0 +1,17 @@
+import {SR} from "../constants";
+
+/**
+ * Attribute rules shared between actor types, like essence loss reducing special attributes.
+ */
+export class AttributeRules {
+    /**
+     * Each point of essence lost, even partially, reduces magic and resonance by one.
+     *
+     * @PDF SR5#52 'Resonance'
+     * @PDF SR5#278 'Essence and Magic'
+     * @param essence The current essence.
+     */
+    static essenceLoss(essence: number): number {
+        return Math.max(0, Math.ceil(SR.attributes.essence_max - essence));
+    }
+}
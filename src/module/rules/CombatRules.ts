@@ -1,4 +1,10 @@
 import {SR} from "../constants";
+import {Helpers} from "../helpers";
+import DamageData = Shadowrun.DamageData;
+import InitiativeValues = Shadowrun.InitiativeValues;
+import ActionsTaken = Shadowrun.ActionsTaken;
+import RangeData = Shadowrun.RangeData;
+import ScatterType = Shadowrun.ScatterType;
 
 export class CombatRules {
     static iniOrderCanDoAnotherPass(scores: number[]): boolean {
@@ -38,4 +44,193 @@ export class CombatRules {
         const reducedScore = score + pass * SR.combat.INI_RESULT_MOD_AFTER_INI_PASS;
         return Math.max(reducedScore, 0);
     }
-}
\ No newline at end of file
+
+    /**
+     * Determine how an initiative score must change after the values it's been rolled with changed @PDF SR5#160 'Changing Initiative'.
+     *
+     * Neither score nor dice changes are applied, gained or lost initiative dice must be rolled by the caller.
+     *
+     * @param before The values the initiative score has been rolled with.
+     * @param after The current values.
+     * @return score: A fixed initiative score change. dice: The amount of initiative dice gained (positive) or lost (negative).
+     */
+    static initiativeScoreChange(before: InitiativeValues, after: InitiativeValues): {score: number, dice: number} {
+        const score = (after.base - before.base) - (after.wounds - before.wounds);
+        const dice = after.dice - before.dice;
+        return {score, dice};
+    }
+
+    /**
+     * Determine the progressive recoil modifier of a shot @PDF SR5#175 'Recoil'.
+     *
+     * @param rc The total recoil compensation.
+     * @param accumulated The bullets fired within previous consecutive action phases.
+     * @param fired The bullets fired with this shot.
+     */
+    static recoilModifier(rc: number, accumulated: number, fired: number): number {
+        return Math.min(rc - (accumulated + fired), 0);
+    }
+
+    /**
+     * Determine the actions left within an action phase @PDF SR5#163.
+     *
+     * @param taken The actions already taken within the action phase.
+     */
+    static actionsLeft(taken: ActionsTaken): {free: number, simple: number} {
+        const {free, simple, simple_per_complex} = SR.combat.action_phase;
+        return {
+            free: Math.max(free - taken.free, 0),
+            simple: Math.max(simple - taken.simple - taken.complex * simple_per_complex, 0)
+        };
+    }
+
+    /**
+     * Check if an action of the given type can still be taken within an action phase @PDF SR5#163.
+     * Action types not spending any actions of an action phase can always be taken.
+     *
+     * @param taken The actions already taken within the action phase.
+     * @param type The action type. See SR5.actionTypes
+     */
+    static canTakeAction(taken: ActionsTaken, type: string): boolean {
+        const left = CombatRules.actionsLeft(taken);
+        switch (type) {
+            case 'free':
+                return left.free > 0;
+            case 'simple':
+                return left.simple > 0;
+            case 'complex':
+                return left.simple >= SR.combat.action_phase.simple_per_complex;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Check if an interrupt action can be used with the given initiative score @PDF SR5#168.
+     *
+     * @param score The current initiative score.
+     * @param initMod The initiative score modifier of the interrupt action. NOTE: Modifier is negative
+     */
+    static canUseInterruptAction(score: number, initMod: number): boolean {
+        return score + initMod >= 0;
+    }
+
+    /**
+     * Determine if an attack hits the defender @PDF SR5#173 'Defend'.
+     *
+     * A tie between attacker and defender hits means the defender avoided the attack.
+     *
+     * @param attackerHits The hits of the attack test.
+     * @param defenderHits The hits of the defense test.
+     * @return true means the attack hit the defender.
+     */
+    static attackHits(attackerHits: number, defenderHits: number): boolean {
+        return attackerHits > defenderHits;
+    }
+
+    /**
+     * Determine if an attack misses the defender.
+     *
+     * See CombatRules.attackHits for details.
+     */
+    static attackMisses(attackerHits: number, defenderHits: number): boolean {
+        return !CombatRules.attackHits(attackerHits, defenderHits);
+    }
+
+    /**
+     * Calculate the net hits of an opposed test. Net hits can't go below zero.
+     *
+     * @param attackerHits The hits of the attack test.
+     * @param defenderHits The hits of the defense test.
+     */
+    static netHits(attackerHits: number, defenderHits: number): number {
+        return Math.max(attackerHits - defenderHits, 0);
+    }
+
+    /**
+     * Modify the incoming damage of a hitting attack by the attackers net hits @PDF SR5#173 'Damage Value'.
+     *
+     * @param attackerHits The hits of the attack test.
+     * @param defenderHits The hits of the defense test.
+     * @param damage The incoming damage, unmodified by any net hits.
+     * @return A copy of the incoming damage with the net hits added.
+     */
+    static modifyDamageAfterHit(attackerHits: number, defenderHits: number, damage: DamageData): DamageData {
+        const netHits = CombatRules.netHits(attackerHits, defenderHits);
+        if (netHits === 0) return duplicate(damage) as DamageData;
+
+        return Helpers.modifyDamageByHits(damage, netHits, 'SR5.NetHits').modified;
+    }
+
+    /**
+     * Determine the range category a distance falls into @PDF SR5#185 'Range'.
+     *
+     * @param distance The distance in meters.
+     * @param ranges The maximum distance of each range category.
+     * @return A key of SR.combat.environmental.range_modifiers.
+     */
+    static rangeCategory(distance: number, ranges: RangeData): string {
+        const categories = ['short', 'medium', 'long', 'extreme'];
+        return categories.find(category => distance < ranges[category]) ?? 'out_of_range';
+    }
+
+    /**
+     * Determine how many meters a grenade scatters off its target point @PDF SR5#182 'Scatter'.
+     *
+     * Each net hit of the attack test reduces the scatter by one meter, with no scatter left being a direct hit.
+     *
+     * @param roll The summed up scatter dice.
+     * @param range The range category thrown at. See CombatRules.rangeCategory.
+     * @param hits The hits of the attack test.
+     */
+    static scatterDistance(roll: number, range: string, hits: number): number {
+        const {threshold, range_meters} = SR.combat.scatter;
+        const netHits = CombatRules.netHits(hits, threshold);
+        const rangeMeters = range_meters[range] ?? 0;
+        return Math.max(roll + rangeMeters - netHits, 0);
+    }
+
+    /**
+     * Determine how many dice to roll for the scatter of a grenade type @PDF SR5#182 'Scatter'.
+     *
+     * @param type The grenade type.
+     */
+    static scatterDice(type: ScatterType): number {
+        return SR.combat.scatter.dice[type] ?? SR.combat.scatter.dice.standard;
+    }
+
+    /**
+     * Determine the direction of a scatter in degrees @PDF SR5#182 'Scatter'.
+     *
+     * A roll of one continues along the line of the throw, with each further side turning clockwise.
+     *
+     * @param roll The result of a single direction die.
+     */
+    static scatterDirection(roll: number): number {
+        return (roll - 1) * SR.combat.scatter.direction_sector;
+    }
+
+    /**
+     * Check if a target is caught within a blast @PDF SR5#181 'Grenades'.
+     *
+     * @param distance The distance in meters between blast center and target.
+     * @param radius The blast radius in meters.
+     */
+    static isWithinBlast(distance: number, radius: number): boolean {
+        return distance <= radius;
+    }
+
+    /**
+     * Modify the damage of a blast by its dropoff for each meter between blast center and target @PDF SR5#181 'Grenades'.
+     *
+     * @param damage The damage at the blast center.
+     * @param dropoff The damage change per meter. NOTE: Dropoff is negative.
+     * @param distance The distance in meters between blast center and target.
+     * @return A copy of the damage with the dropoff applied.
+     */
+    static modifyDamageByDropoff(damage: DamageData, dropoff: number, distance: number): DamageData {
+        if (dropoff === 0 || distance === 0) return duplicate(damage) as DamageData;
+
+        return Helpers.modifyDamageByHits(damage, dropoff * distance, 'SR5.Dropoff').modified;
+    }
+}
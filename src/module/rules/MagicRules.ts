@@ -0,0 +1,306 @@
+import {SR} from "../constants";
+import {AttributeRules} from "./AttributeRules";
+import DamageType = Shadowrun.DamageType;
+import SustainedEffect = Shadowrun.SustainedEffect;
+import Magic = Shadowrun.Magic;
+import MetamagicType = Shadowrun.MetamagicType;
+import FocusType = Shadowrun.FocusType;
+import SpellPartData = Shadowrun.SpellPartData;
+import DetectionResult = Shadowrun.DetectionResult;
+import ObjectResistance = Shadowrun.ObjectResistance;
+
+/**
+ * Magic rules around spellcasting, summoning, binding, sustaining, drain, the astral plane, initiation and foci.
+ */
+export class MagicRules {
+    /**
+     * Each net hit on a summoning or binding test grants the spirit one service.
+     *
+     * @PDF SR5#300 'Summoning'
+     * @param hits The magicians hits.
+     * @param spiritHits The spirits hits.
+     */
+    static spiritServices(hits: number, spiritHits: number): number {
+        return Math.max(0, hits - spiritHits);
+    }
+
+    /**
+     * Drain equals twice the hits of the spirit, but no less than two.
+     *
+     * @PDF SR5#300 'Summoning'
+     * @param spiritHits The spirits hits.
+     */
+    static summoningDrain(spiritHits: number): number {
+        return Math.max(SR.magic.drain_min, spiritHits * 2);
+    }
+
+    /**
+     * Drain is physical damage when the Force used exceeds the magicians Magic.
+     *
+     * @PDF SR5#300 'Summoning'
+     * @param force The Force used.
+     * @param magic The magicians Magic.
+     */
+    static drainDamageType(force: number, magic: number): DamageType {
+        return force > magic ? 'physical' : 'stun';
+    }
+
+    /**
+     * Spirits resist binding with twice their Force.
+     *
+     * @PDF SR5#300 'Binding'
+     * @param force The spirit Force.
+     */
+    static bindingDice(force: number): number {
+        return force * 2;
+    }
+
+    /**
+     * Binding consumes reagents depending on the spirits Force.
+     *
+     * @PDF SR5#300 'Binding'
+     * @param force The spirit Force.
+     */
+    static bindingReagents(force: number): number {
+        return force * SR.magic.binding_reagents;
+    }
+
+    /**
+     * A magician can only keep as many bound spirits as their Charisma.
+     *
+     * @PDF SR5#300 'Binding'
+     * @param bound The amount of spirits already bound.
+     * @param charisma The magicians Charisma.
+     */
+    static canBindSpirit(bound: number, charisma: number): boolean {
+        return bound < charisma;
+    }
+
+    /**
+     * Each spell or complex form sustained by the caster themselves applies a dice pool modifier to all tests.
+     * Effects sustained by a spirit or a sustaining focus don't.
+     *
+     * @PDF SR5#281 'Sustaining Spells'
+     * @PDF SR5#252 'Sustaining Complex Forms'
+     * @param effects The effects sustained.
+     */
+    static sustainingModifier(effects: SustainedEffect[]): number {
+        const sustainedByCaster = effects.filter(effect => !effect.spirit && !effect.focus);
+        return sustainedByCaster.length * SR.magic.sustaining_modifier;
+    }
+
+    /**
+     * Both astral perception and projection move a magician onto the astral plane.
+     *
+     * @PDF SR5#312 'The Astral Plane'
+     * @param magic The magicians magic data.
+     */
+    static isAstral(magic: Magic): boolean {
+        return magic.projecting || magic.perceiving;
+    }
+
+    /**
+     * On the astral plane physical attributes are replaced by their mental counterparts.
+     *
+     * @PDF SR5#314 'Astral Projection'
+     * @param attribute The physical attribute.
+     */
+    static astralAttribute(attribute: string): string | undefined {
+        return SR.magic.astral_attributes[attribute];
+    }
+
+    /**
+     * The astral limit is the higher of the mental and social limit.
+     *
+     * @PDF SR5#314 'Astral Projection'
+     * @param mental The mental limit.
+     * @param social The social limit.
+     */
+    static astralLimit(mental: number, social: number): number {
+        return Math.max(mental, social);
+    }
+
+    /**
+     * Perceiving both planes at once applies a multitasking modifier, projecting doesn't.
+     *
+     * @PDF SR5#313 'Astral Perception'
+     * @param magic The magicians magic data.
+     */
+    static astralPerceptionModifier(magic: Magic): number {
+        return magic.perceiving && !magic.projecting ? SR.magic.astral_perception_modifier : 0;
+    }
+
+    /**
+     * Each initiation grade raises the maximum magic, essence loss lowers it.
+     *
+     * @PDF SR5#324 'Initiation'
+     * @param initiation The initiation grade.
+     * @param essence The current essence.
+     */
+    static maxMagic(initiation: number, essence: number): number {
+        return SR.magic.magic_max + initiation - AttributeRules.essenceLoss(essence);
+    }
+
+    /**
+     * Initiation and submersion share the same karma cost for the next grade.
+     *
+     * @PDF SR5#325 'Initiation'
+     * @PDF SR5#258 'Submersion'
+     * @param grade The grade to reach.
+     */
+    static gradeKarmaCost(grade: number): number {
+        return SR.magic.grade_karma_base + grade * SR.magic.grade_karma_multiplier;
+    }
+
+    /**
+     * Centering adds the initiate grade as dice to drain resistance.
+     *
+     * @PDF SR5#325 'Centering'
+     * @param metamagics The metamagics known.
+     * @param initiation The initiation grade.
+     */
+    static centeringDice(metamagics: MetamagicType[], initiation: number): number {
+        return metamagics.includes('centering') ? initiation : 0;
+    }
+
+    /**
+     * Shielding adds the initiate grade as dice to defend against direct combat spells.
+     *
+     * @PDF SR5#326 'Shielding'
+     * @param metamagics The metamagics known.
+     * @param initiation The initiation grade.
+     */
+    static shieldingDice(metamagics: MetamagicType[], initiation: number): number {
+        return metamagics.includes('shielding') ? initiation : 0;
+    }
+
+    /**
+     * Masking lets an initiate present a different aura, extended masking extends it to others.
+     *
+     * @PDF SR5#325 'Masking'
+     * @param metamagics The metamagics known.
+     */
+    static isAuraMasked(metamagics: MetamagicType[]): boolean {
+        return metamagics.includes('masking') || metamagics.includes('extended_masking');
+    }
+
+    /**
+     * Bonding a focus costs karma depending on its type and Force.
+     *
+     * @PDF SR5#319 'Bonding Foci'
+     * @param type The focus type.
+     * @param force The focus Force.
+     */
+    static focusBondingKarma(type: FocusType | '', force: number): number {
+        if (!type) return 0;
+        return force * SR.magic.focus_bonding_karma[type];
+    }
+
+    /**
+     * The total Force of active foci a magician can handle without risking focus addiction.
+     *
+     * @PDF SR5#318 'Foci'
+     * @param magic The magicians Magic.
+     */
+    static focusForceLimit(magic: number): number {
+        return magic * SR.magic.focus_force_multiplier;
+    }
+
+    /**
+     * Active foci above the limit risk focus addiction.
+     *
+     * @PDF SR5#318 'Foci'
+     * @param activeForce The total Force of all active foci.
+     * @param magic The magicians Magic.
+     */
+    static risksFocusAddiction(activeForce: number, magic: number): boolean {
+        return activeForce > MagicRules.focusForceLimit(magic);
+    }
+
+    /**
+     * Spell drain is the spells drain modifier plus its Force, raised further by reckless spellcasting.
+     *
+     * @PDF SR5#281 'Spellcasting'
+     * @param drain The spells drain modifier.
+     * @param force The Force the spell is cast with.
+     * @param reckless Reckless spellcasting raises drain.
+     */
+    static spellDrain(drain: number, force: number, reckless: boolean): number {
+        const recklessDrain = reckless ? SR.magic.reckless_drain : 0;
+        return Math.max(SR.magic.drain_min, drain + force + recklessDrain);
+    }
+
+    /**
+     * Overcasting with a Force above Magic, or drain above Magic, causes physical drain.
+     *
+     * @PDF SR5#281 'Spellcasting'
+     * @param force The Force the spell is cast with.
+     * @param drain The resulting drain.
+     * @param magic The casters Magic.
+     */
+    static spellDrainDamageType(force: number, drain: number, magic: number): DamageType {
+        return drain > magic ? 'physical' : MagicRules.drainDamageType(force, magic);
+    }
+
+    /**
+     * Detection spells targeting something other than a mind and physical or environmental manipulations
+     * need to overcome the Object Resistance of non-living targets.
+     *
+     * @PDF SR5#295 'Object Resistance'
+     * @param spell The spell data.
+     */
+    static usesObjectResistance(spell: SpellPartData): boolean {
+        if (spell.category === 'detection') return spell.detection.type !== 'psychic';
+        if (spell.category === 'manipulation') {
+            const {mental, physical, environmental} = spell.manipulation;
+            return !mental && (physical || environmental);
+        }
+        return false;
+    }
+
+    /**
+     * The threshold of a non-living target, living targets resist with an opposed test instead.
+     *
+     * @PDF SR5#295 'Object Resistance'
+     * @param objectResistance The kind of object targeted.
+     */
+    static objectResistanceThreshold(objectResistance: ObjectResistance | '' | undefined): number {
+        return objectResistance ? SR.magic.object_resistance[objectResistance] : 0;
+    }
+
+    /**
+     * Hits above a threshold are net hits, no hits at all always fail.
+     *
+     * @PDF SR5#45 'Thresholds'
+     * @param hits The casters hits.
+     * @param threshold The threshold to reach.
+     */
+    static spellNetHits(hits: number, threshold: number): number {
+        return Math.max(0, hits - threshold);
+    }
+
+    /**
+     * A spell succeeds when its hits reach the threshold.
+     *
+     * @PDF SR5#45 'Thresholds'
+     * @param hits The casters hits.
+     * @param threshold The threshold to reach.
+     */
+    static spellSucceeds(hits: number, threshold: number): boolean {
+        return hits > 0 && hits >= threshold;
+    }
+
+    /**
+     * Net hits on a detection spell decide how much information the caster gains.
+     *
+     * @PDF SR5#285 'Detection Spells'
+     * @param netHits The casters net hits.
+     */
+    static detectionResult(netHits: number): DetectionResult | '' {
+        const {general, detailed, complete} = SR.magic.detection_results;
+        if (netHits >= complete) return 'complete';
+        if (netHits >= detailed) return 'detailed';
+        if (netHits >= general) return 'general';
+        return '';
+    }
+}
@@ -0,0 +1,256 @@
+import {SR} from "../constants";
+import {AttributeRules} from "./AttributeRules";
+import DeviceAttributeAssignment = Shadowrun.DeviceAttributeAssignment;
+import DeviceAttributeKey = Shadowrun.DeviceAttributeKey;
+import MatrixAttribute = Shadowrun.MatrixAttribute;
+import ProgramEffect = Shadowrun.ProgramEffect;
+import ProgramEffectTypes = Shadowrun.ProgramEffectTypes;
+import ICAttackData = Shadowrun.ICAttackData;
+import ICType = Shadowrun.ICType;
+import DamageType = Shadowrun.DamageType;
+import MatrixAttackEffect = Shadowrun.MatrixAttackEffect;
+import BiofeedbackType = Shadowrun.BiofeedbackType;
+
+/**
+ * Matrix rules around marks placed on personas, devices, hosts and files and cyberdeck configuration.
+ */
+export class MatrixRules {
+    /**
+     * Placing more than one mark with a single Hack on the Fly or Brute Force action is harder.
+     *
+     * @PDF SR5#240 'Hack on the Fly'
+     * @param marks The amount of marks to place at once.
+     */
+    static markPlacementModifier(marks: number): number {
+        return SR.matrix.mark_placement_modifiers[marks] ?? 0;
+    }
+
+    /**
+     * Marks on an icon add up, but no persona can have more than three marks on the same icon.
+     *
+     * @PDF SR5#231 'Matrix Attributes'
+     * @param current The marks already placed.
+     * @param placed The marks placed now.
+     */
+    static addMarks(current: number, placed: number): number {
+        return Math.min(Math.max(current + placed, 0), SR.matrix.max_marks);
+    }
+
+    /**
+     * @param marks The marks placed on the action target.
+     * @param required The marks needed by the matrix action.
+     */
+    static hasRequiredMarks(marks: number, required: number): boolean {
+        return marks >= required;
+    }
+
+    /**
+     * Swapping two cyberdeck attributes moves a matrix attribute onto another device attribute,
+     * and the matrix attribute previously assigned there onto the freed device attribute.
+     *
+     * @PDF SR5#229 'Cyberdecks'
+     * @param atts The current assignment of matrix attributes.
+     * @param deviceAtt The device attribute to move the matrix attribute to.
+     * @param att The matrix attribute to move.
+     */
+    static swapDeviceAttributes(atts: DeviceAttributeAssignment, deviceAtt: DeviceAttributeKey, att: MatrixAttribute): DeviceAttributeAssignment {
+        const swapped = {...atts};
+        const previous = atts[deviceAtt];
+
+        for (const [key, value] of Object.entries(atts)) {
+            if (value === att) swapped[key] = previous;
+        }
+        swapped[deviceAtt] = att;
+
+        return swapped;
+    }
+
+    /**
+     * A cyberdeck can only be reconfigured once per action phase, unless a Configurator is running.
+     *
+     * @PDF SR5#245 'Configurator'
+     * @param reconfigured The cyberdeck has already been reconfigured within the current action phase.
+     * @param configurator A Configurator program is running.
+     */
+    static canReconfigure(reconfigured: boolean, configurator: boolean): boolean {
+        return !reconfigured || configurator;
+    }
+
+    /**
+     * Programs are matched by their name, as given by the rulebook and Chummer.
+     *
+     * @PDF SR5#245 'Common Programs' and 'Hacking Programs'
+     * @param name The program name.
+     */
+    static programEffect(name: string): ProgramEffect {
+        return SR.matrix.program_effects[MatrixRules.programKey(name)] ?? {};
+    }
+
+    static programKey(name: string): string {
+        return name.trim().toLowerCase().replace(/\s+/g, '_');
+    }
+
+    /**
+     * Matrix damage dealt while running Biofeedback, Blackout or Lockdown has follow up effects on the defender.
+     *
+     * @PDF SR5#246 'Hacking Programs'
+     * @param programs The names of all programs the attacker is running.
+     */
+    static programAttackEffect(programs: string[]): MatrixAttackEffect {
+        return programs.reduce((effect: MatrixAttackEffect, name) => {
+            return {...effect, ...(SR.matrix.attack_effects[MatrixRules.programKey(name)] ?? {})};
+        }, {});
+    }
+
+    /**
+     * @param programs The names of all running programs.
+     * @param type The effect to sum up.
+     */
+    static programBonus(programs: string[], type: ProgramEffectTypes): number {
+        return programs.reduce((bonus, name) => bonus + (MatrixRules.programEffect(name)[type] ?? 0), 0);
+    }
+
+    /**
+     * A device can run as many programs as its device rating.
+     *
+     * @PDF SR5#236 'Programs'
+     * @param deviceRating The rating of the device running the programs.
+     * @param programs The names of all running programs.
+     */
+    static programSlots(deviceRating: number, programs: string[]): number {
+        return deviceRating + MatrixRules.programBonus(programs, 'slots');
+    }
+
+    /**
+     * IC act with an initiative of twice their host rating.
+     *
+     * @PDF SR5#247 'IC'
+     * @param hostRating The rating of the host running the IC.
+     */
+    static icInitiativeBase(hostRating: number): number {
+        return hostRating * 2;
+    }
+
+    /**
+     * @PDF SR5#247 'IC'
+     * @param hostRating The rating of the host running the IC.
+     */
+    static icConditionMonitor(hostRating: number): number {
+        return 8 + Math.ceil(hostRating / 2);
+    }
+
+    /**
+     * Patrol IC doesn't attack at all.
+     *
+     * @PDF SR5#248 'IC'
+     * @param icType The IC type attacking.
+     */
+    static icAttack(icType: ICType): ICAttackData | undefined {
+        return SR.matrix.ic_attacks[icType];
+    }
+
+    /**
+     * Once the overwatch score reaches 40 the demiGOD converges on the persona.
+     *
+     * @PDF SR5#231 'Overwatch Score and Convergence'
+     * @param overwatchScore The current overwatch score.
+     */
+    static isConverged(overwatchScore: number): boolean {
+        return overwatchScore >= SR.matrix.convergence.overwatch_score;
+    }
+
+    /**
+     * Only the action pushing the overwatch score over the limit triggers convergence.
+     *
+     * @param before The overwatch score before the action.
+     * @param after The overwatch score after the action.
+     */
+    static triggersConvergence(before: number, after: number): boolean {
+        return !MatrixRules.isConverged(before) && MatrixRules.isConverged(after);
+    }
+
+    /**
+     * Dumpshock damage is stun damage for cold sim and physical damage for hot sim VR.
+     *
+     * @PDF SR5#229 'Dumpshock'
+     * @param hotSim Whether the persona was using hot sim VR.
+     */
+    static dumpshockDamageType(hotSim: boolean): DamageType {
+        return hotSim ? 'physical' : 'stun';
+    }
+
+    /**
+     * Biofeedback mirrors matrix damage onto personas using VR.
+     *
+     * @PDF SR5#229 'Biofeedback'
+     * @param biofeedback The kind of biofeedback caused.
+     * @param hotSim Whether the persona is using hot sim VR.
+     */
+    static biofeedbackDamageType(biofeedback: BiofeedbackType, hotSim: boolean): DamageType {
+        return biofeedback === 'stun' ? 'stun' : MatrixRules.dumpshockDamageType(hotSim);
+    }
+
+    /**
+     * A device is bricked once its matrix condition monitor is filled.
+     *
+     * @PDF SR5#228 'Matrix Damage'
+     * @param value The matrix damage taken.
+     * @param max The matrix condition monitor size.
+     */
+    static isBricked(value: number, max: number): boolean {
+        return max > 0 && value >= max;
+    }
+
+    /**
+     * Each submersion grade raises the maximum resonance, essence loss lowers it.
+     *
+     * @PDF SR5#258 'Submersion'
+     * @param submersion The submersion grade.
+     * @param essence The current essence.
+     */
+    static maxResonance(submersion: number, essence: number): number {
+        return SR.matrix.resonance_max + submersion - AttributeRules.essenceLoss(essence);
+    }
+
+    /**
+     * Each net hit on a compiling or registering test grants the sprite one task.
+     *
+     * @PDF SR5#254 'Compiling a Sprite'
+     * @param hits The technomancers hits.
+     * @param spriteHits The sprites hits.
+     */
+    static spriteServices(hits: number, spriteHits: number): number {
+        return Math.max(0, hits - spriteHits);
+    }
+
+    /**
+     * Fade equals twice the hits of the sprite, but no less than two.
+     *
+     * @PDF SR5#254 'Compiling a Sprite'
+     * @param spriteHits The sprites hits.
+     */
+    static spriteFade(spriteHits: number): number {
+        return Math.max(SR.matrix.sprite_fade_min, spriteHits * 2);
+    }
+
+    /**
+     * Fade is physical damage when the sprite level exceeds the technomancers resonance.
+     *
+     * @PDF SR5#251 'Fading'
+     * @param level The sprite level.
+     * @param resonance The technomancers resonance.
+     */
+    static spriteFadeDamageType(level: number, resonance: number): DamageType {
+        return level > resonance ? 'physical' : 'stun';
+    }
+
+    /**
+     * Sprites resist registration with twice their level.
+     *
+     * @PDF SR5#255 'Registering a Sprite'
+     * @param level The sprite level.
+     */
+    static spriteRegistrationDice(level: number): number {
+        return level * 2;
+    }
+}
@@ -8,6 +8,7 @@ import ModifiedDamageData = Shadowrun.ModifiedDamageData;
 import ModifiableValue = Shadowrun.ModifiableValue;
 import CharacterActorData = Shadowrun.CharacterData;
 import SpellItemData = Shadowrun.SpellItemData;
+import ProgramEffectTypes = Shadowrun.ProgramEffectTypes;
 
 /**
  * Soaking rules for actors
@@ -35,6 +36,11 @@ export class SoakRules {
             return SoakRules.applyDirectCombatSpellParts(damageSourceItem.data as SpellItemData, soakParts, actor);
         }
 
+        // Astral combat is resisted with Willpower alone, physical armor doesn't apply on the astral plane.
+        if (damageSourceItem && damageSourceItem.isAstralCombat()) {
+            return SoakRules.addUniquePart(soakParts, actor.getAttribute('willpower'), SR5.attributes.willpower);
+        }
+
         SoakRules.applyBodyAndArmorParts(soakParts, actor);
 
         const armor = actor.getArmor();
@@ -95,12 +101,26 @@ export class SoakRules {
             }
             else {
                 SoakRules.applyBiofeedbackParts(soakParts, actor, actorData);
+                SoakRules.applyProgramParts(soakParts, actor, 'biofeedback_soak');
             }
         }
 
         else {
             SoakRules.applyRatingAndFirewallParts(actorData, soakParts);
         }
+
+        SoakRules.applyProgramParts(soakParts, actor, 'matrix_soak');
+    }
+
+    /**
+     * Running programs like Armor or Biofeedback Filter help resisting matrix damage.
+     * @PDF SR5#245 'Common Programs' and 'Hacking Programs'
+     */
+    private static applyProgramParts(soakParts: PartsList<number>, actor: SR5Actor, type: ProgramEffectTypes) {
+        const bonus = actor.getProgramBonus(type);
+        if (bonus) {
+            soakParts.addUniquePart(SR5.programEffects[type], bonus);
+        }
     }
 
     private static applyBiofeedbackParts(soakParts: PartsList<number>, actor: SR5Actor, actorData: CharacterActorData) {
@@ -156,7 +176,7 @@ export class SoakRules {
     }
 
     /**
-     * Changes the damage type based on the incoming damage type and the actor state (armor, matrix perception..)
+     * Changes the damage type based on the incoming damage type and the actor state (armor..)
      * @param damage The incoming damage
      * @param actor The actor affected by the damage
      * @returns The updated damage data
@@ -175,8 +195,8 @@ export class SoakRules {
             return updatedDamage;
         }
 
-        updatedDamage = SoakRules.modifyPhysicalDamageForArmor(updatedDamage, actor);
-        return SoakRules.modifyMatrixDamageForBiofeedback(updatedDamage, actor);
+        // Matrix damage stays matrix damage, biofeedback is applied on top of it by the DamageApplicationFlow.
+        return SoakRules.modifyPhysicalDamageForArmor(updatedDamage, actor);
     }
 
     /**
@@ -206,35 +226,4 @@ export class SoakRules {
 
         return updatedDamage;
     }
-
-    /**
-     * Turns matrix damage to biofeedback based on the actor state
-     * @param damage The incoming damage
-     * @param actor The actor affected by the damage
-     * @returns The updated damage data
-     */
-    static modifyMatrixDamageForBiofeedback(damage: DamageData, actor : SR5Actor): DamageData {
-        const updatedDamage = duplicate(damage) as DamageData;
-
-        if (damage.type.value === 'matrix') {
-            const actorData = actor.data.data as CharacterActorData;
-
-            // Only characters can receive biofeedback damage at the moment.
-            // TODO Technomancer and Sprites special rules?
-            if (!actor.isCharacter()) {
-                return updatedDamage;
-            }
-
-            if (actorData.initiative.perception === 'matrix') {
-                if (actorData.matrix.hot_sim) {
-                    updatedDamage.type.value = 'physical';
-                }
-                else {
-                    updatedDamage.type.value = 'stun';
-                }
-            }
-        }
-
-        return updatedDamage;
-    }
-}
\ No newline at end of file
+}
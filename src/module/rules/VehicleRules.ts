@@ -0,0 +1,64 @@
+import VehicleControlModeTypes = Shadowrun.VehicleControlModeTypes;
+import AutosoftData = Shadowrun.AutosoftData;
+import AutosoftTypes = Shadowrun.AutosoftTypes;
+
+/**
+ * Rules for vehicles and drones depending on the way they are controlled.
+ */
+export class VehicleRules {
+    /**
+     * The driver attribute used with Gunnery for vehicle mounted weapons.
+     *
+     * Manually operated weapons use Agility, weapons fired through a remote connection or while jumped in use Logic.
+     * An autopilot doesn't use driver attributes at all.
+     *
+     * @PDF SR5#183 'Vehicle Combat'
+     * @param controlMode The vehicles current control mode.
+     */
+    static gunneryAttribute(controlMode: VehicleControlModeTypes): 'agility' | 'logic' | undefined {
+        switch (controlMode) {
+            case 'manual':
+                return 'agility';
+            case 'remote':
+            case 'rigger':
+                return 'logic';
+            case 'autopilot':
+                return undefined;
+        }
+    }
+
+    /**
+     * Sensor guided weapon tests are limited by the vehicles sensor, manually operated weapons by their accuracy.
+     *
+     * @PDF SR5#183 'Vehicle Combat'
+     * @param controlMode The vehicles current control mode.
+     */
+    static gunneryUsesSensorLimit(controlMode: VehicleControlModeTypes): boolean {
+        return controlMode !== 'manual';
+    }
+
+    /**
+     * Only a rigger jumped into a drone fires its weapons as if they were the riggers own.
+     *
+     * @PDF SR5#265 'Jumped In'
+     * @param controlMode The vehicles current control mode.
+     */
+    static canRiggerFireThrough(controlMode: VehicleControlModeTypes): boolean {
+        return controlMode === 'rigger';
+    }
+
+    /**
+     * Targeting and Maneuvering autosofts only work for their weapon or vehicle model.
+     * Autosofts without a weapon or model given will be used for all of them.
+     *
+     * @PDF SR5#269 'Autosofts'
+     * @param autosoft The autosoft program data.
+     * @param type The autosoft type needed.
+     * @param target The weapon or vehicle model name the autosoft is used for.
+     */
+    static autosoftMatches(autosoft: AutosoftData, type: AutosoftTypes, target?: string): boolean {
+        if (autosoft.type !== type) return false;
+        if (!autosoft.target || !target) return true;
+        return target.toLowerCase().includes(autosoft.target.toLowerCase());
+    }
+}
@@ -2,6 +2,7 @@
 
 import { VersionMigration } from './migrator/VersionMigration';
 import { FLAGS, SYSTEM_NAME } from './constants';
+import { SR5 } from './config';
 
 export const registerSystemSettings = () => {
     /**
@@ -104,6 +105,25 @@ export const registerSystemSettings = () => {
         default: true,
     });
 
+    game.settings.register(SYSTEM_NAME, FLAGS.ActionEconomy, {
+        name: 'SETTINGS.ActionEconomy',
+        hint: 'SETTINGS.ActionEconomyDescription',
+        scope: 'world',
+        config: true,
+        type: String,
+        default: 'warn',
+        choices: SR5.actionEconomy,
+    });
+
+    game.settings.register(SYSTEM_NAME, FLAGS.SharedRiggerGunnery, {
+        name: 'SETTINGS.SharedRiggerGunnery',
+        hint: 'SETTINGS.SharedRiggerGunneryDescription',
+        scope: 'world',
+        config: true,
+        type: Boolean,
+        default: true,
+    });
+
     game.settings.register(SYSTEM_NAME, FLAGS.OnlyAutoRollNPCInCombat, {
          name: 'SETTINGS.OnlyAutoRollNPCInCombat',
         hint: 'SETTINGS.OnlyAutoRollNPCInCombatDescription',
@@ -0,0 +1,60 @@
+import {SYSTEM_SOCKET} from "./constants";
+
+type SocketHandler = (data: any) => Promise<any>;
+
+/**
+ * Players lack permissions for some document changes, like changing actors of other users or creating actors.
+ * These changes are sent to the GM and executed there.
+ *
+ * Handlers must be registered on all clients, as a GM executes them directly without any socket message.
+ */
+export class SocketMessage {
+    static handlers: Record<string, SocketHandler> = {};
+
+    static registerHandler(type: string, handler: SocketHandler) {
+        SocketMessage.handlers[type] = handler;
+    }
+
+    static registerListeners() {
+        // @ts-ignore
+        game.socket.on(SYSTEM_SOCKET, async (message) => {
+            const handler = SocketMessage.handlers[message.type];
+            // Other system socket messages are handled elsewhere.
+            if (!handler) return;
+            // With multiple GMs connected, only one should execute the change.
+            if (!SocketMessage.isResponsibleGM()) return;
+
+            return await handler(message.data);
+        });
+    }
+
+    /** The first active GM executes all socket messages.
+     */
+    static isResponsibleGM(): boolean {
+        const gm = game.users.find(user => user.isGM && user.active);
+        return !!gm && gm.id === game.user?.id;
+    }
+
+    /** Execute a registered handler as a GM, either directly or by sending it to the responsible GM.
+     *
+     * @param type The handler type. See FLAGS.
+     * @param data The data given to the handler.
+     */
+    static async emitForGM(type: string, data: object) {
+        const handler = SocketMessage.handlers[type];
+        if (!handler) {
+            console.error(`Shadowrun 5e | Socket message type ${type} has no handler registered`);
+            return;
+        }
+
+        if (game.user?.isGM) return await handler(data);
+
+        if (!game.users.find(user => user.isGM && user.active)) {
+            ui.notifications?.error(game.i18n.localize('SR5.Errors.NoActiveGM'));
+            return;
+        }
+
+        //@ts-ignore
+        await game.socket.emit(SYSTEM_SOCKET, {type, data});
+    }
+}
@@ -1,4 +1,11 @@
 import { SR5Item } from './item/SR5Item';
+import {Helpers} from './helpers';
+import {CombatRules} from './rules/CombatRules';
+import {BlastScatter, BlastTarget, createBlastChatMessage, createTargetChatMessage} from './chat';
+import {ShadowrunRoll} from './rolls/ShadowrunRoller';
+import {SR5Actor} from './actor/SR5Actor';
+import AttackData = Shadowrun.AttackData;
+import BlastData = Shadowrun.BlastData;
 
 
 export default // @ts-ignore
@@ -6,9 +13,12 @@ class Template extends MeasuredTemplate {
     x: number;
     y: number;
     item?: SR5Item;
+    attack?: AttackData;
+    roll?: ShadowrunRoll;
+    blast?: BlastData;
     onComplete?: () => void;
 
-    static fromItem(item: SR5Item, onComplete?: () => void): Template | undefined {
+    static fromItem(item: SR5Item, attack?: AttackData, roll?: ShadowrunRoll, onComplete?: () => void): Template | undefined {
         const templateShape = 'circle';
 
         const templateData = {
@@ -20,7 +30,8 @@ class Template extends MeasuredTemplate {
             // @ts-ignore
             fillColor: game.user?.color,
         };
-        const blast = item.getBlastData();
+        // The attack has been rolled with the final blast, while the item only knows about the last one used.
+        const blast = attack?.blast ?? item.getBlastData();
         templateData['distance'] = blast?.radius;
         templateData['dropoff'] = blast?.dropoff;
 
@@ -32,6 +43,9 @@ class Template extends MeasuredTemplate {
         // @ts-ignore
         const template = new Template(document);
         template.item = item;
+        template.attack = attack;
+        template.roll = roll;
+        template.blast = blast;
         template.onComplete = onComplete;
         return template;
     }
@@ -83,7 +97,7 @@ class Template extends MeasuredTemplate {
         };
 
         // Confirm the workflow (left-click)
-        handlers['lc'] = (event) => {
+        handlers['lc'] = async (event) => {
             handlers['rc'](event);
             if (!canvas.ready) return;
 
@@ -92,9 +106,14 @@ class Template extends MeasuredTemplate {
             // @ts-ignore // foundry-vtt-types 0.8 DocumentData support
             this.data.update({x: destination.x, y: destination.y});
 
+            // Grenades don't go off where they've been aimed at.
+            const scatter = this.scatter();
+
             // Create the template
             // @ts-ignore // foundry-vtt-types 0.8 support
-            canvas.scene.createEmbeddedDocuments('MeasuredTemplate', [this.data]);
+            await canvas.scene.createEmbeddedDocuments('MeasuredTemplate', [this.data]);
+
+            await this.resolveBlast(scatter);
         };
 
         // Rotate the template by 3 degree increments (mouse-wheel)
@@ -116,4 +135,100 @@ class Template extends MeasuredTemplate {
         canvas.app.view.oncontextmenu = handlers['rc'];
         canvas.app.view.onwheel = handlers['mw'];
     }
+
+    /**
+     * Move a thrown grenade off its aimed at position by its scatter.
+     *
+     * @return The resulting scatter, should the item scatter at all.
+     */
+    scatter(): BlastScatter | undefined {
+        if (!canvas.ready || !this.item?.isGrenade()) return;
+
+        const ranges = this.item.getThrownRanges();
+        const token = this.item.actor?.getToken();
+        if (!ranges || !token) return;
+
+        const thrownFrom = new PIXI.Point(token.center.x, token.center.y);
+        const aimedAt = new PIXI.Point(this.data.x, this.data.y);
+        const range = CombatRules.rangeCategory(Helpers.measurePointDistance(thrownFrom, aimedAt), ranges);
+
+        const distanceRoll = new Roll(`${CombatRules.scatterDice(this.item.getScatterType())}d6`);
+        const directionRoll = new Roll('1d6');
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        distanceRoll.evaluate({async: false});
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        directionRoll.evaluate({async: false});
+
+        const hits = this.attack?.hits ?? 0;
+        const distance = CombatRules.scatterDistance(Number(distanceRoll.total), range, hits);
+        const direction = CombatRules.scatterDirection(Number(directionRoll.total));
+
+        if (distance > 0) {
+            const offset = Helpers.convertMetersToPixels(distance);
+            // The scatter direction is relative to the line of the throw.
+            const throwAngle = Math.atan2(aimedAt.y - thrownFrom.y, aimedAt.x - thrownFrom.x);
+            const radians = throwAngle + toRadians(direction);
+            // @ts-ignore // foundry-vtt-types 0.8 DocumentData support
+            this.data.update({x: aimedAt.x + Math.cos(radians) * offset, y: aimedAt.y + Math.sin(radians) * offset});
+        }
+
+        return {distance, direction, range};
+    }
+
+    /**
+     * Collect every token caught within the placed template and request a defense from each.
+     *
+     * The blast card only lists visible targets, while each target card is whispered to the owners of its target.
+     *
+     * @param scatter The scatter applied before placement.
+     */
+    async resolveBlast(scatter?: BlastScatter) {
+        if (!canvas.ready || !this.item || !this.attack || !this.blast) return;
+
+        const center = new PIXI.Point(this.data.x, this.data.y);
+        const {radius, dropoff} = this.blast;
+
+        const targets: BlastTarget[] = [];
+        for (const token of canvas.tokens.placeables) {
+            if (!token.actor) continue;
+
+            const distance = Helpers.measurePointDistance(center, new PIXI.Point(token.center.x, token.center.y));
+            if (!CombatRules.isWithinBlast(distance, radius)) continue;
+
+            const damage = CombatRules.modifyDamageByDropoff(this.attack.damage, dropoff, distance);
+            // The blast has died down before reaching this target.
+            if (dropoff !== 0 && damage.value <= 0) continue;
+
+            targets.push({token, distance, damage});
+        }
+
+        // @ts-ignore // TODO: foundry-vtt-types 0.8 support
+        const visibleTargets = targets.filter(({token}) => !token.data.hidden);
+        await createBlastChatMessage(this.item, {scatter, targets: visibleTargets});
+
+        const actor = this.item.actor;
+        const item = this.item;
+        const title = item.getRollName();
+        const tests = item.getOpposedTests();
+        const roll = this.roll as ShadowrunRoll;
+        for (const {token, damage} of targets) {
+            const attack = {...this.attack, damage};
+            for (const whisperTo of Template.getTargetRecipients(token)) {
+                await createTargetChatMessage({actor, item, title, roll, tests, attack, target: token, targets: [token], whisperTo});
+            }
+        }
+    }
+
+    /**
+     * Players owning a target defend it themselves, while the GM defends all others.
+     *
+     * @param token The target token.
+     */
+    static getTargetRecipients(token: Token): User[] {
+        const players = (token.actor as SR5Actor).getActivePlayerOwners().filter(user => !user.isGM);
+        if (players.length > 0) return players;
+
+        const gm = game.users.find(user => user.isGM && user.active);
+        return gm ? [gm] : [];
+    }
 }
@@ -16,6 +16,8 @@ declare namespace Shadowrun {
     export type ShadowrunActorData =
         CharacterActorData |
         CritterActorData |
+        HostActorData |
+        ICActorData |
         SpiritActorData |
         SpriteActorData |
         VehicleActorData;
@@ -23,6 +25,8 @@ declare namespace Shadowrun {
     export type ShadowrunActorDataData =
         CharacterData |
         CritterData |
+        HostData |
+        ICData |
         SpiritData |
         SpriteData |
         VehicleData;
@@ -34,6 +38,12 @@ declare namespace Shadowrun {
     export interface CritterActorData extends Actor.Data<CritterData, ShadowrunItemData> {
         type: 'critter';
     }
+    export interface HostActorData extends Actor.Data<HostData, ShadowrunItemData> {
+        type: 'host';
+    }
+    export interface ICActorData extends Actor.Data<ICData, ShadowrunItemData> {
+        type: 'ic';
+    }
     export interface SpiritActorData extends Actor.Data<SpiritData, ShadowrunItemData> {
         type: 'spirit';
     }
@@ -24,8 +24,11 @@ declare namespace Shadowrun {
         CritterPowerItemData |
         CyberwareItemData |
         DeviceItemData |
+        EchoItemData |
         EquipmentItemData |
+        FocusItemData |
         LifestyleItemData |
+        MetamagicItemData |
         ModificationItemData |
         ProgramItemData |
         QualityItemData |
@@ -64,8 +67,11 @@ declare namespace Shadowrun {
         Partial<CritterPowerData> &
         Partial<CyberwareData> &
         Partial<DeviceData> &
+        Partial<EchoData> &
         Partial<EquipmentData> &
+        Partial<FocusData> &
         Partial<LifestyleData> &
+        Partial<MetamagicData> &
         Partial<ModificationData> &
         Partial<ProgramData> &
         Partial<QualityData> &
@@ -105,12 +111,21 @@ declare namespace Shadowrun {
     export interface DeviceItemData extends Item.Data<DeviceData> {
         type: 'device'
     }
+    export interface EchoItemData extends Item.Data<EchoData> {
+        type: 'echo'
+    }
     export interface EquipmentItemData extends Item.Data<EquipmentData> {
         type: 'equipment'
     }
+    export interface FocusItemData extends Item.Data<FocusData> {
+        type: 'focus'
+    }
     export interface LifestyleItemData extends Item.Data<LifestyleData> {
         type: 'lifestyle'
     }
+    export interface MetamagicItemData extends Item.Data<MetamagicData> {
+        type: 'metamagic'
+    }
     export interface ModificationItemData extends Item.Data<ModificationData> {
         type: 'modification'
     }
@@ -12,6 +12,8 @@ declare namespace Shadowrun {
         TwoTrackActorData &
         ArmorActorData &
         MagicActorData &
+        TechnomancerActorData &
+        SustainingActorData &
         WoundsActorData &
         MovementActorData &
         NPCActorData & {
@@ -57,6 +59,10 @@ declare namespace Shadowrun {
         magic: Magic;
     };
 
+    export type TechnomancerActorData = {
+        technomancer: Technomancer;
+    };
+
     export type MatrixActorData = {
         matrix: ActorMatrix;
     };
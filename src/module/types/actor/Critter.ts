@@ -3,6 +3,7 @@
 declare namespace Shadowrun {
     export type CritterType = keyof typeof SR5CONFIG.critterTypes;
     export type CritterData = MagicActorData &
+        SustainingActorData &
         TwoTrackActorData &
         ArmorActorData &
         WoundsActorData &
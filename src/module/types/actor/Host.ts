@@ -0,0 +1,54 @@
+/// <reference path="../Shadowrun.ts" />
+
+declare namespace Shadowrun {
+    export type ICType = keyof typeof SR5CONFIG.icTypes;
+
+    /**
+     * The host attributes are the host rating plus an offset of 0 to 3, each offset used once.
+     */
+    export type HostAttributeOffsets = Record<MatrixAttribute, number>;
+
+    export type HostData = MatrixActorData & {
+        rating: number;
+        asdf: HostAttributeOffsets;
+        // Security patrol IC in the order the host launches them.
+        ic: ICType[];
+        attributes: Attributes;
+        limits: Limits;
+        skills: {
+            active: Skills;
+            language: KnowledgeSkillList;
+            knowledge: KnowledgeSkills;
+        };
+        special: SpecialTrait;
+        initiative: Initiative;
+        modifiers: Modifiers;
+    };
+
+    export type ICData = MatrixActorData & {
+        icType: ICType;
+        // The actor id of the host that launched this IC.
+        host: string;
+        // The host rating at launch, used while the host itself isn't available.
+        rating: number;
+        attributes: Attributes;
+        limits: Limits;
+        skills: {
+            active: Skills;
+            language: KnowledgeSkillList;
+            knowledge: KnowledgeSkills;
+        };
+        special: SpecialTrait;
+        initiative: Initiative;
+        modifiers: Modifiers;
+    };
+
+    /**
+     * The attack of an IC type, opposed by the defenders attribute and matrix attribute.
+     */
+    export type ICAttackData = MatrixAttackEffect & {
+        opposed: [ActorAttribute, ActorAttribute];
+        // IC dealing damage equal to the host attack.
+        damage?: DamageType;
+    };
+}
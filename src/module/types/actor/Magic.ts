@@ -2,6 +2,14 @@ declare namespace Shadowrun {
     export type Magic = {
         attribute: ActorAttribute;
         projecting: boolean;
+        // Astral perception, while the body stays on the physical plane.
+        perceiving: boolean;
+        // Each initiation grade raises the maximum magic and grants a metamagic.
+        initiation: number;
+        // Reduce magic by essence loss, unless magic has been entered reduced already.
+        apply_essence_loss: boolean;
+        // Drams of reagents, consumed when binding spirits.
+        reagents: number;
         drain: BaseValuePair<number> & ModifiableValue;
     };
 }
@@ -17,6 +17,35 @@ declare namespace Shadowrun {
         hot_sim: boolean;
         running_silent: boolean;
         item?: any;
+        // Marks this persona placed onto other icons.
+        marks: MatrixMark[];
+        // Link-locked personas can't jack out until the link-lock is broken.
+        link_locked: boolean;
+        // The actor whose icon link-locked this persona.
+        link_locked_by: string;
+        // Disorientation caused by dumpshock.
+        disoriented: boolean;
+    };
+
+    /**
+     * Follow up effects of matrix damage dealt by biofeedback programs or IC.
+     */
+    export type MatrixAttackEffect = {
+        // 'sim' causes stun damage in cold sim and physical damage in hot sim, 'stun' always causes stun damage.
+        biofeedback?: BiofeedbackType;
+        link_lock?: boolean;
+    };
+
+    export type BiofeedbackType = 'sim' | 'stun';
+
+    /**
+     * Marks placed onto a persona or device icon.
+     */
+    export type MatrixMark = {
+        // The marked actor or owned item uuid.
+        uuid: string;
+        name: string;
+        marks: number;
     };
 
     export type MatrixAttributeField = AttributeField & {
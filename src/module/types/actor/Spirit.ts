@@ -4,12 +4,17 @@ declare namespace Shadowrun {
     export type SpiritType = keyof typeof SR5CONFIG.spiritTypes;
 
     export type SpiritData = MagicActorData &
+        SustainingActorData &
         TwoTrackActorData &
         ArmorActorData &
         WoundsActorData &
         MovementActorData & {
         spiritType: SpiritType;
         force: number;
+        services: number;
+        bound: boolean;
+        // The actor id of the magician that summoned this spirit.
+        summoner: string;
         attributes: Attributes;
         limits: Limits;
         skills: {
@@ -2,11 +2,13 @@
 
 declare namespace Shadowrun {
     export type SpriteType = keyof typeof SR5CONFIG.spriteTypes;
-    export type SpriteData = MatrixActorData & {
+    export type SpriteData = MatrixActorData & SustainingActorData & {
         level: number;
         services: number;
         registered: boolean;
         spriteType: SpriteType;
+        // The actor id of the technomancer that compiled this sprite.
+        technomancer: string;
         attributes: Attributes;
         limits: Limits;
         skills: {
@@ -0,0 +1,23 @@
+/// <reference path="../Shadowrun.ts" />
+
+declare namespace Shadowrun {
+    export type SustainedEffectType = 'spell' | 'complex_form';
+
+    export type SustainedEffect = {
+        id: string;
+        // The item cast, owned by the sustaining actor.
+        itemId: string;
+        name: string;
+        type: SustainedEffectType;
+        // Force of a spell or level of a complex form.
+        force: number;
+        // The actor id of a spirit sustaining the effect instead.
+        spirit: string;
+        // Sustained by a sustaining focus instead.
+        focus: boolean;
+    };
+
+    export type SustainingActorData = {
+        sustained: SustainedEffect[];
+    };
+}
@@ -0,0 +1,9 @@
+declare namespace Shadowrun {
+    export type Technomancer = {
+        // Each submersion grade raises the maximum resonance and grants an echo.
+        submersion: number;
+        // Resonance is entered before essence loss and reduced during preparation.
+        // Opt-in, as resonance entered by hand usually has essence loss already applied.
+        apply_essence_loss: boolean;
+    };
+}
@@ -16,6 +16,8 @@ declare namespace Shadowrun {
         PhysicalTrackActorData & {
             vehicleType: VehicleTypes;
             controlMode: VehicleControlModeTypes;
+            // The vehicle model, as the actor name can be freely chosen.
+            model: string;
             isDrone: boolean;
             isOffRoad: boolean;
             driver: string;
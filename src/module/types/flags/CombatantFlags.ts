@@ -0,0 +1,71 @@
+/// <reference path="../Shadowrun.ts" />
+/**
+ * Typing specifically for Combatant.setFlag / getFlag
+ *
+ */
+declare namespace Shadowrun {
+    /**
+     * Initiative relevant actor values, as they have been used for an initiative score.
+     */
+    export type InitiativeValues = {
+        base: number;
+        dice: number;
+        wounds: number;
+    };
+
+    /**
+     * The last action phase a combatant acted in.
+     */
+    export type ActedData = {
+        round: number;
+        pass: number;
+        // Position within the turn order the combatant acted at.
+        position: number;
+    };
+
+    /**
+     * Amount of actions taken by type.
+     */
+    export type ActionsTaken = {
+        free: number;
+        simple: number;
+        complex: number;
+    };
+
+    /**
+     * Actions a combatant has taken within an action phase.
+     */
+    export type ActionsTakenData = ActionsTaken & {
+        round: number;
+        pass: number;
+    };
+
+    /**
+     * Progressive recoil accumulated over consecutive action phases with fired weapons.
+     */
+    export type RecoilData = {
+        // Bullets fired since the last action phase without firing.
+        value: number;
+        // The action phase bullets have last been fired in.
+        round: number;
+        pass: number;
+    };
+
+    /**
+     * The action phase a combatant has last reconfigured its cyberdeck in.
+     */
+    export type ReconfiguredData = {
+        round: number;
+        pass: number;
+    };
+
+    export type ActionPhaseData = {
+        initiative: InitiativeValues;
+        acted?: ActedData;
+        actions?: ActionsTakenData;
+        recoil?: RecoilData;
+        // Full defense stays active until the combatants next action phase.
+        fullDefense?: boolean;
+        reconfigured?: ReconfiguredData;
+    };
+}
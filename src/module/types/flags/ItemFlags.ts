@@ -23,6 +23,16 @@ declare namespace Shadowrun {
         value: number;
     };
 
+    /**
+     * Origin of an item imported from a Chummer character file.
+     */
+    export type ChummerImportData = {
+        // Chummer entry guid, if given.
+        guid: string;
+        // Chummer character section the item has been imported from.
+        section: string;
+    };
+
     export type ReachData = {
         attacker: {
             value: number;
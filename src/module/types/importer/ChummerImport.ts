@@ -0,0 +1,75 @@
+/// <reference path="../Shadowrun.ts" />
+/**
+ * Typing around importing Chummer5 character files.
+ */
+declare namespace Shadowrun {
+    /**
+     * The sections of a Chummer character that should be imported.
+     */
+    export type ChummerImportOptions = {
+        weapons: boolean;
+        armor: boolean;
+        cyberware: boolean;
+        equipment: boolean;
+        qualities: boolean;
+        powers: boolean;
+        spells: boolean;
+        complexForms: boolean;
+        critterPowers: boolean;
+        martialArts: boolean;
+        contacts: boolean;
+        lifestyles: boolean;
+        vehicles: boolean;
+    };
+
+    /**
+     * An owned item changed by a character re-import.
+     */
+    export type ChummerImportItemChange = {
+        _id: string;
+        name: string;
+        type: string;
+        // The changed item data keys.
+        changes: string[];
+        // The changed item data, flattened.
+        data: Record<string, any>;
+    };
+
+    /**
+     * All owned item changes of a character import, to be previewed before being applied.
+     */
+    export type ChummerImportItemChanges = {
+        create: any[];
+        update: ChummerImportItemChange[];
+        remove: {_id: string, name: string, type: string}[];
+    };
+
+    /**
+     * A vehicle owned by an imported character, to be created or updated as a vehicle actor.
+     */
+    export type ChummerImportVehicleChange = {
+        name: string;
+        // The already imported vehicle actor, if any.
+        existingId?: string;
+        actorData: any;
+        items: ChummerImportItemChanges;
+    };
+
+    /**
+     * A vehicle actor of a previous import, no longer owned by the imported character.
+     */
+    export type ChummerImportRemovedVehicle = {
+        _id: string;
+        name: string;
+    };
+
+    /**
+     * A Chummer character file entry the importer couldn't map onto system data.
+     */
+    export type ChummerImportReportEntry = {
+        // The Chummer character section the entry is from.
+        section: string;
+        name: string;
+        reason: string;
+    };
+}
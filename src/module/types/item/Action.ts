@@ -18,6 +18,8 @@ declare namespace Shadowrun {
             opposed: OpposedTestData;
             alt_mod: number;
             dice_pool_mod: ModList<number>;
+            marks: ActionMarksData;
+            illegal: boolean;
         }
 
     export interface ActionPartData {
@@ -27,7 +29,10 @@ declare namespace Shadowrun {
     /**
      * Action limit data.
      */
-    export interface LimitData extends ModifiableValueLinked {}
+    export interface LimitData extends ModifiableValue {
+        attribute: ActorAttribute | LimitAttribute;
+    }
+    export type LimitAttribute = 'physical' | 'mental' | 'social' | 'astral';
     export type FormulaOperator = 'add'|'subtract'|'multiply'|'divide';
 
     /**
@@ -51,6 +56,14 @@ declare namespace Shadowrun {
         source?: DamageSource;
     }
 
+    /**
+     * Marks a matrix action needs on its target or places on success.
+     */
+    export interface ActionMarksData {
+        required: number;
+        place: boolean;
+    }
+
     /**
      * Action opposed test data.
      */
@@ -7,7 +7,7 @@ declare namespace Shadowrun {
 
     }
 
-    export type DeviceCategory = 'commlink' | 'cyberdeck';
+    export type DeviceCategory = 'commlink' | 'cyberdeck' | 'rcc';
 
     export interface DevicePartData {
         category: DeviceCategory;
@@ -17,6 +17,20 @@ declare namespace Shadowrun {
             att3: DeviceAttribute;
             att4: DeviceAttribute;
         };
+        // Saved cyberdeck configurations to switch to.
+        configurations: DeviceConfiguration[];
+    }
+
+    export type DeviceAttributeKey = 'att1' | 'att2' | 'att3' | 'att4';
+
+    /**
+     * An assignment of matrix attributes onto the cyberdeck attribute array.
+     */
+    export type DeviceAttributeAssignment = Record<DeviceAttributeKey, MatrixAttribute>;
+
+    export interface DeviceConfiguration {
+        name: string;
+        atts: DeviceAttributeAssignment;
     }
 
     export interface DeviceAttribute {
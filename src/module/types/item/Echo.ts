@@ -0,0 +1,18 @@
+/// <reference path="../Shadowrun.ts" />
+declare namespace Shadowrun {
+    export interface EchoData extends
+        EchoPartData,
+        DescriptionPartData {
+
+    }
+
+    /**
+     * Echoes improve the living persona of a technomancer.
+     */
+    export interface EchoPartData {
+        // The living persona attribute raised by this echo.
+        attribute: MatrixAttribute | '';
+        bonus: number;
+        initiative_dice: number;
+    }
+}
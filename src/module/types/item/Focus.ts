@@ -0,0 +1,22 @@
+/// <reference path="../Shadowrun.ts" />
+declare namespace Shadowrun {
+    export interface FocusData extends
+        FocusPartData,
+        DescriptionPartData,
+        TechnologyPartData {
+
+    }
+
+    export type FocusType = keyof typeof SR5CONFIG.focusTypes;
+
+    /**
+     * Foci are activated by equipping them, but only bonded foci can be activated.
+     */
+    export interface FocusPartData {
+        type: FocusType | '';
+        force: number;
+        bonded: boolean;
+        // The melee weapon enchanted as a weapon focus.
+        weapon: string;
+    }
+}
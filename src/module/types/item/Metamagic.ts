@@ -0,0 +1,17 @@
+/// <reference path="../Shadowrun.ts" />
+declare namespace Shadowrun {
+    export interface MetamagicData extends
+        MetamagicPartData,
+        DescriptionPartData {
+
+    }
+
+    export type MetamagicType = keyof typeof SR5CONFIG.metamagicTypes;
+
+    /**
+     * Metamagics are learned by initiates, one for each initiation grade.
+     */
+    export interface MetamagicPartData {
+        type: MetamagicType | '';
+    }
+}
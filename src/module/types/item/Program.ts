@@ -8,7 +8,39 @@ declare namespace Shadowrun {
 
     export interface ProgramPartData {
         type: ProgramTypes;
+        autosoft: AutosoftData;
     }
 
-    export type ProgramTypes = 'common_program' | 'hacking_program' | '';
+    export type ProgramTypes = 'common_program' | 'hacking_program' | 'agent' | 'autosoft' | '';
+
+    /**
+     * Autosofts are used by drones instead of skills. Targeting and Maneuvering are limited to a single weapon or vehicle model.
+     */
+    export interface AutosoftData {
+        type: AutosoftTypes;
+        // The weapon or vehicle model name the autosoft is limited to.
+        target: string;
+    }
+
+    export type AutosoftTypes = 'clearsight' | 'evasion' | 'maneuvering' | 'stealth' | 'targeting';
+
+    /**
+     * Bonuses a running program gives its user.
+     */
+    export type ProgramEffect = {
+        attack?: number;
+        sleaze?: number;
+        data_processing?: number;
+        firewall?: number;
+        // Dice pool modifier for resisting matrix damage.
+        matrix_soak?: number;
+        // Dice pool modifier for resisting biofeedback damage.
+        biofeedback_soak?: number;
+        // Dice pool modifier for matrix actions placing marks.
+        place_marks?: number;
+        // Additional program slots.
+        slots?: number;
+    };
+
+    export type ProgramEffectTypes = keyof ProgramEffect;
 }
@@ -46,4 +46,6 @@ declare namespace Shadowrun {
     export type SpellType = 'physical' | 'mana' | '';
     export type SpellRange = 'touch' | 'los' | 'los_a' | '';
     export type SpellDuration = 'instant' | 'sustained' | 'permanent' | '';
+    export type ObjectResistance = keyof typeof SR5CONFIG.objectResistances;
+    export type DetectionResult = keyof typeof SR5CONFIG.detectionResults;
 }
@@ -76,7 +76,11 @@ declare namespace Shadowrun {
     export interface ThrownWeaponData  {
         ranges: RangeData;
         blast: BlastData;
+        // Aerodynamic grenades scatter further than standard grenades.
+        scatter: ScatterType;
     }
+
+    export type ScatterType = keyof typeof SR5CONFIG.scatterTypes;
     /**
      * Blast data.
      */
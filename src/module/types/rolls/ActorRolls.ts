@@ -26,10 +26,20 @@ declare namespace Shadowrun {
         accuracy?: number;
         damage: DamageData;
         blast?: BlastData;
+        // Marks placed on a successful matrix action.
+        marks?: number;
     };
 
     type CombatData = {
         initiative?: number
+        // Interrupt action used, see SR.combat.interrupt_actions
+        interrupt?: string
+    }
+
+    // Result of an opposed test between attacker and defender.
+    type OpposedResultData = {
+        netHits: number
+        missed?: boolean
     }
 
     type ModifiedDamageData = {
@@ -10,6 +10,71 @@ declare namespace Shadowrun {
         emerged: boolean;
         woundTolerance: number;
         vehicle: SR5VehicleSheetData;
+        // Vehicles driven by this actor.
+        vehicles: SR5DrivenVehicleSheetData[];
+        // Marks placed by this actor and marks placed onto this actor by others.
+        marks: MatrixMark[];
+        marksOnThis: SR5MarkOnThisSheetData[];
+        // Running programs of the matrix device.
+        programSlots?: {used: number, max: number};
+        // Sprites compiled by a technomancer.
+        sprites?: SR5CompiledSpriteSheetData[];
+        // Spirits summoned by a magician.
+        spirits?: SR5SummonedSpiritSheetData[];
+        // The magician that summoned a spirit.
+        summoner?: SheetDocumentData;
+        // Karma needed for the next initiation or submersion grade.
+        initiationKarmaCost?: number;
+        submersionKarmaCost?: number;
+        // Masking metamagics hide the actors true aura.
+        auraMasked: boolean;
+        // Active foci make the actors aura visible and count toward focus addiction.
+        auraVisible: boolean;
+        activeFoci?: SR5ActiveFociSheetData;
+        // Spells and complex forms sustained by this actor.
+        sustained: SR5SustainedEffectSheetData[];
+        // The host that launched an IC.
+        host?: SheetDocumentData;
+        // The technomancer that compiled a sprite.
+        technomancer?: SheetDocumentData;
+    };
+
+    type SheetDocumentData = {
+        id: string | null;
+        name: string | null;
+        img: string | null;
+    };
+
+    export type SR5DrivenVehicleSheetData = SheetDocumentData & {
+        // Weapons the driver can fire through the vehicle.
+        weapons: SheetDocumentData[];
+    };
+
+    export type SR5CompiledSpriteSheetData = SheetDocumentData & {
+        level: number;
+        services: number;
+        registered: boolean;
+    };
+
+    export type SR5SummonedSpiritSheetData = SheetDocumentData & {
+        force: number;
+        services: number;
+        bound: boolean;
+    };
+
+    export type SR5ActiveFociSheetData = {
+        force: number;
+        limit: number;
+        addiction: boolean;
+    };
+
+    export type SR5SustainedEffectSheetData = SustainedEffect & {
+        spiritName: string | null;
+    };
+
+    export type SR5MarkOnThisSheetData = MatrixMark & {
+        actorId: string | null;
+        actorName: string | null;
     };
 
     export type SR5SheetFilters = {
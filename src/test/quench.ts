@@ -1,7 +1,19 @@
 import {shadowrunRulesModifiers} from "./sr5.Modifiers.spec";
 import {shadowrunSR5Item} from "./sr5.SR5Item.spec";
+import {shadowrunRulesCombat} from "./sr5.CombatRules.spec";
+import {shadowrunChummerImport} from "./sr5.ChummerImport.spec";
+import {shadowrunRulesVehicle} from "./sr5.VehicleRules.spec";
+import {shadowrunRulesMatrix} from "./sr5.MatrixRules.spec";
+import {shadowrunRulesMagic} from "./sr5.MagicRules.spec";
+import {shadowrunRulesAttributes} from "./sr5.AttributeRules.spec";
 
 export const quenchRegister = quench => {
     quench.registerBatch("shadowrun5e.rules.modifiers", shadowrunRulesModifiers);
     quench.registerBatch("shadowrun5e.entities.items", shadowrunSR5Item);
+    quench.registerBatch("shadowrun5e.rules.combat", shadowrunRulesCombat);
+    quench.registerBatch("shadowrun5e.import.chummer", shadowrunChummerImport);
+    quench.registerBatch("shadowrun5e.rules.vehicle", shadowrunRulesVehicle);
+    quench.registerBatch("shadowrun5e.rules.matrix", shadowrunRulesMatrix);
+    quench.registerBatch("shadowrun5e.rules.magic", shadowrunRulesMagic);
+    quench.registerBatch("shadowrun5e.rules.attributes", shadowrunRulesAttributes);
 };
@@ -0,0 +1,14 @@
+import {AttributeRules} from "../module/rules/AttributeRules";
+
+export const shadowrunRulesAttributes = context => {
+    const {describe, it, assert} = context;
+
+    describe('SR5 Attribute Rules', () => {
+        it('should lose a point for each started point of essence lost', () => {
+            assert.strictEqual(AttributeRules.essenceLoss(6), 0);
+            assert.strictEqual(AttributeRules.essenceLoss(5.9), 1);
+            assert.strictEqual(AttributeRules.essenceLoss(4.8), 2);
+            assert.strictEqual(AttributeRules.essenceLoss(4), 2);
+        })
+    });
+};
@@ -0,0 +1,148 @@
+import {CyberwareParser} from "../module/apps/characterImport/CyberwareParser";
+import {CritterPowerParser} from "../module/apps/characterImport/CritterPowerParser";
+import {GearsParser} from "../module/apps/characterImport/gearImport/GearsParser";
+import {ImportReport} from "../module/apps/characterImport/ImportReport";
+import {CharacterImporter} from "../module/apps/characterImport/CharacterImporter";
+import {VehicleParser} from "../module/apps/characterImport/VehicleParser";
+import {MetamagicParser} from "../module/apps/characterImport/MetamagicParser";
+import {CharacterInfoUpdater} from "../module/apps/characterImport/CharacterInfoUpdater";
+
+export const shadowrunChummerImport = context => {
+    const {describe, it, assert} = context;
+
+    describe('Chummer character import', () => {
+        it('should import nested cyberware as separate items', () => {
+            const chummerChar = {
+                cyberwares: {
+                    cyberware: {
+                        name: 'Cybereyes', grade: 'Alphaware', ess: '0.4',
+                        children: {cyberware: [{name: 'Flare Compensation', grade: 'Alphaware', ess: '0'}]}
+                    }
+                }
+            };
+            const report = new ImportReport();
+            const items = new CyberwareParser().parse(chummerChar, report);
+
+            assert.lengthOf(items, 2);
+            assert.equal(items[0].data.grade, 'alpha');
+            assert.equal(items[0].data.essence, 0.4);
+            assert.isFalse(report.hasUnmapped);
+        })
+
+        it('should map chummer cyberware grades', () => {
+            const parser = new CyberwareParser();
+            const report = new ImportReport();
+
+            assert.equal(parser.parseGrade({grade: 'Standard'}, report), 'standard');
+            assert.equal(parser.parseGrade({grade: 'Standard (Second-Hand)'}, report), 'used');
+            assert.equal(parser.parseGrade({grade: 'Deltaware'}, report), 'delta');
+            assert.equal(parser.parseGrade({grade: 'Gammaware'}, report), 'standard');
+            assert.lengthOf(report.unmapped, 1);
+        })
+
+        it('should map chummer critter power ranges', () => {
+            const parser = new CritterPowerParser();
+
+            assert.equal(parser.parseRange('LOS'), 'los');
+            assert.equal(parser.parseRange('LOS (A)'), 'los_a');
+            assert.equal(parser.parseRange('Touch'), 'touch');
+            assert.equal(parser.parseRange('Varies'), 'special');
+        })
+
+        it('should import nested gear, but keep licenses with their SIN', () => {
+            const chummerChar = {
+                gears: {
+                    gear: [
+                        {name: 'Fake SIN', name_english: 'Fake SIN', issin: 'True', children: {gear: {name: 'Fake License', name_english: 'Fake License', category: 'ID/Credsticks'}}},
+                        {name: 'Commlink', name_english: 'Commlink', children: {gear: {name: 'Browse', name_english: 'Browse', category: 'Common Programs'}}}
+                    ]
+                }
+            };
+            const items = new GearsParser().parse(chummerChar, new ImportReport());
+
+            assert.deepEqual(items.map(item => item.type), ['sin', 'equipment', 'program']);
+            assert.lengthOf(items[0].data.licenses, 1);
+        })
+
+        it('should import foci with their rating as Force', () => {
+            const chummerChar = {
+                gears: {
+                    gear: {name: 'Power Focus', name_english: 'Power Focus', category: 'Foci', rating: '3', bonded: 'True', equipped: 'True'}
+                }
+            };
+            const [focus] = new GearsParser().parse(chummerChar, new ImportReport());
+
+            assert.equal(focus.type, 'focus');
+            assert.equal(focus.data.type, 'power');
+            assert.equal(focus.data.force, 3);
+            assert.isTrue(focus.data.bonded);
+            assert.isTrue(focus.data.technology.equipped);
+        })
+
+        it('should only update changed item data and keep values changed during play', () => {
+            const existing = {name: 'Ares Predator V', data: {ammo: {current: {value: 3, max: 15}}, technology: {rating: 1}, modes: {}}, flags: {}};
+            const imported = {name: 'Ares Predator V', data: {ammo: {current: {value: 15, max: 15}}, technology: {rating: 2}, modes: {}}, flags: {}};
+
+            const changed = new CharacterImporter().collectChangedData(existing, imported);
+
+            assert.deepEqual(changed, {'data.technology.rating': 2});
+        })
+
+        it('should parse owned vehicles into vehicle actor data with their own items', () => {
+            const chummerChar = {
+                vehicles: {
+                    vehicle: {
+                        guid: 'guid', name: 'MCT-Nissan Roto-Drone', category: 'Drones: Medium',
+                        handling: '4/3', speed: '3', accel: '1', body: '5', armor: '6', pilot: '3', sensor: '3', devicerating: '3',
+                        mods: {mod: {name: 'Improved Sensor Array', rating: '2'}}
+                    }
+                }
+            };
+            const report = new ImportReport();
+            const [vehicle] = new VehicleParser().parse(chummerChar, report);
+            const {vehicle_stats} = vehicle.data;
+
+            assert.equal(vehicle.type, 'vehicle');
+            assert.isTrue(vehicle.data.isDrone);
+            assert.equal(vehicle.data.vehicleType, 'ground');
+            assert.equal(vehicle.data.model, 'MCT-Nissan Roto-Drone');
+            assert.equal(vehicle_stats.handling.base, 4);
+            assert.equal(vehicle_stats.off_road_handling.base, 3);
+            assert.equal(vehicle_stats.speed.base, 3);
+            assert.equal(vehicle_stats.off_road_speed.base, 3);
+            assert.equal(vehicle.data.armor.base, 6);
+            assert.deepEqual(vehicle.items.map(item => item.type), ['equipment']);
+            assert.isFalse(report.hasUnmapped);
+        })
+
+        it('should import echoes as echo items and metamagics as metamagic items', () => {
+            const chummerChar = {
+                metamagics: {
+                    metamagic: [
+                        {name: 'Firewall Upgrade', improvementsource: 'Echo'},
+                        {name: 'Overclocking', improvementsource: 'Echo'},
+                        {name: 'Masking', improvementsource: 'Metamagic'}
+                    ]
+                }
+            };
+            const report = new ImportReport();
+            const [upgrade, overclocking, masking] = new MetamagicParser().parse(chummerChar, report);
+
+            assert.equal(upgrade.type, 'echo');
+            assert.equal(upgrade.data.attribute, 'firewall');
+            assert.equal(upgrade.data.bonus, 1);
+            assert.equal(overclocking.data.initiative_dice, 1);
+            assert.equal(masking.type, 'metamagic');
+            assert.equal(masking.data.type, 'masking');
+            assert.isFalse(report.hasUnmapped);
+        })
+
+        it('should import magic and resonance without essence loss', () => {
+            const updater = new CharacterInfoUpdater();
+
+            assert.equal(updater.parseAttBaseValue({name: 'MAG', base: '5', total: '3'}), 5);
+            assert.equal(updater.parseAttBaseValue({name: 'RES', base: '6', total: '4'}), 6);
+            assert.equal(updater.parseAttBaseValue({name: 'LOG', base: '4', total: '5'}), 5);
+        })
+    })
+}
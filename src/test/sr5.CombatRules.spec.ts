@@ -0,0 +1,103 @@
+import {CombatRules} from "../module/rules/CombatRules";
+import {DefaultValues} from "../module/data/DataDefaults";
+
+export const shadowrunRulesCombat = context => {
+    const {describe, it, assert} = context;
+
+    describe('SR5 Combat Rules', () => {
+        it('should let the defender win a tie', () => {
+            assert.isTrue(CombatRules.attackHits(3, 2));
+            assert.isFalse(CombatRules.attackHits(2, 2));
+            assert.isTrue(CombatRules.attackMisses(2, 2));
+            assert.isTrue(CombatRules.attackMisses(1, 2));
+        })
+
+        it('should not go below zero net hits', () => {
+            assert.equal(CombatRules.netHits(4, 1), 3);
+            assert.equal(CombatRules.netHits(1, 4), 0);
+        })
+
+        it('should add net hits to the damage value of a hit', () => {
+            const damage = DefaultValues.damageData({base: 6, value: 6});
+            const modified = CombatRules.modifyDamageAfterHit(5, 2, damage);
+
+            assert.equal(modified.value, 9);
+            assert.equal(damage.value, 6);
+        })
+
+        it('should change initiative score by base and wound changes', () => {
+            const before = {base: 10, dice: 1, wounds: 0};
+            const after = {base: 12, dice: 3, wounds: 1};
+
+            assert.deepEqual(CombatRules.initiativeScoreChange(before, after), {score: 1, dice: 2});
+            assert.deepEqual(CombatRules.initiativeScoreChange(before, before), {score: 0, dice: 0});
+        })
+
+        it('should only allow interrupt actions with enough initiative score left', () => {
+            assert.isTrue(CombatRules.canUseInterruptAction(10, -10));
+            assert.isTrue(CombatRules.canUseInterruptAction(12, -5));
+            assert.isFalse(CombatRules.canUseInterruptAction(4, -5));
+            assert.isFalse(CombatRules.canUseInterruptAction(0, -5));
+        })
+
+        it('should leave one free and two simple actions in a fresh action phase', () => {
+            assert.deepEqual(CombatRules.actionsLeft({free: 0, simple: 0, complex: 0}), {free: 1, simple: 2});
+            assert.deepEqual(CombatRules.actionsLeft({free: 1, simple: 0, complex: 1}), {free: 0, simple: 0});
+        })
+
+        it('should not allow a complex action after a simple action', () => {
+            assert.isTrue(CombatRules.canTakeAction({free: 0, simple: 0, complex: 0}, 'complex'));
+            assert.isFalse(CombatRules.canTakeAction({free: 0, simple: 1, complex: 0}, 'complex'));
+            assert.isTrue(CombatRules.canTakeAction({free: 0, simple: 1, complex: 0}, 'simple'));
+            assert.isFalse(CombatRules.canTakeAction({free: 0, simple: 2, complex: 0}, 'simple'));
+            assert.isFalse(CombatRules.canTakeAction({free: 1, simple: 0, complex: 0}, 'free'));
+            assert.isTrue(CombatRules.canTakeAction({free: 1, simple: 0, complex: 1}, 'interrupt'));
+        })
+
+        it('should accumulate recoil over consecutive shots', () => {
+            assert.equal(CombatRules.recoilModifier(3, 0, 3), 0);
+            assert.equal(CombatRules.recoilModifier(3, 3, 3), -3);
+            assert.equal(CombatRules.recoilModifier(3, 0, 1), 0);
+        })
+
+        it('should find the range category a distance falls into', () => {
+            const ranges = {short: 6, medium: 12, long: 18, extreme: 30};
+            assert.equal(CombatRules.rangeCategory(5, ranges), 'short');
+            assert.equal(CombatRules.rangeCategory(6, ranges), 'medium');
+            assert.equal(CombatRules.rangeCategory(29, ranges), 'extreme');
+            assert.equal(CombatRules.rangeCategory(30, ranges), 'out_of_range');
+        })
+
+        it('should reduce grenade scatter by net hits over the threshold', () => {
+            assert.equal(CombatRules.scatterDistance(4, 'short', 3), 4);
+            assert.equal(CombatRules.scatterDistance(4, 'short', 5), 2);
+            assert.equal(CombatRules.scatterDistance(4, 'long', 5), 4);
+            assert.equal(CombatRules.scatterDistance(2, 'short', 8), 0);
+        })
+
+        it('should roll more scatter dice for aerodynamic grenades', () => {
+            assert.equal(CombatRules.scatterDice('standard'), 1);
+            assert.equal(CombatRules.scatterDice('aerodynamic'), 2);
+        })
+
+        it('should turn the direction die into degrees', () => {
+            assert.equal(CombatRules.scatterDirection(1), 0);
+            assert.equal(CombatRules.scatterDirection(4), 180);
+        })
+
+        it('should catch targets within the blast radius', () => {
+            assert.isTrue(CombatRules.isWithinBlast(0, 5));
+            assert.isTrue(CombatRules.isWithinBlast(5, 5));
+            assert.isFalse(CombatRules.isWithinBlast(6, 5));
+        })
+
+        it('should reduce blast damage by dropoff per meter', () => {
+            const damage = DefaultValues.damageData({base: 10, value: 10});
+
+            assert.equal(CombatRules.modifyDamageByDropoff(damage, -1, 4).value, 6);
+            assert.equal(CombatRules.modifyDamageByDropoff(damage, -2, 6).value, 0);
+            assert.equal(CombatRules.modifyDamageByDropoff(damage, 0, 4).value, 10);
+            assert.equal(damage.value, 10);
+        })
+    })
+}
@@ -0,0 +1,146 @@
+import {MagicRules} from "../module/rules/MagicRules";
+
+export const shadowrunRulesMagic = context => {
+    const {describe, it, assert} = context;
+
+    describe('SR5 Magic Rules', () => {
+        it('should grant a spirit service for each net hit', () => {
+            assert.strictEqual(MagicRules.spiritServices(4, 1), 3);
+            assert.strictEqual(MagicRules.spiritServices(2, 2), 0);
+        })
+
+        it('should cause twice the spirit hits as drain, but at least two', () => {
+            assert.strictEqual(MagicRules.summoningDrain(0), 2);
+            assert.strictEqual(MagicRules.summoningDrain(1), 2);
+            assert.strictEqual(MagicRules.summoningDrain(3), 6);
+        })
+
+        it('should cause physical drain for a Force above Magic', () => {
+            assert.strictEqual(MagicRules.drainDamageType(7, 6), 'physical');
+            assert.strictEqual(MagicRules.drainDamageType(6, 6), 'stun');
+        })
+
+        it('should resist binding with twice the Force and consume reagents', () => {
+            assert.strictEqual(MagicRules.bindingDice(4), 8);
+            assert.strictEqual(MagicRules.bindingReagents(4), 100);
+        })
+
+        it('should limit bound spirits by Charisma', () => {
+            assert.isTrue(MagicRules.canBindSpirit(2, 3));
+            assert.isFalse(MagicRules.canBindSpirit(3, 3));
+        })
+
+        it('should apply a dice pool modifier for each effect sustained by the caster', () => {
+            const effect = {id: '', itemId: '', name: '', type: 'spell', force: 3, spirit: '', focus: false} as Shadowrun.SustainedEffect;
+
+            assert.strictEqual(MagicRules.sustainingModifier([]), 0);
+            assert.strictEqual(MagicRules.sustainingModifier([effect, effect]), -4);
+            assert.strictEqual(MagicRules.sustainingModifier([effect, {...effect, focus: true}, {...effect, spirit: 'spiritId'}]), -2);
+        })
+
+        it('should be astral while perceiving or projecting', () => {
+            const magic = {projecting: false, perceiving: false} as Shadowrun.Magic;
+
+            assert.isFalse(MagicRules.isAstral(magic));
+            assert.isTrue(MagicRules.isAstral({...magic, perceiving: true}));
+            assert.isTrue(MagicRules.isAstral({...magic, projecting: true}));
+        })
+
+        it('should replace physical attributes with mental attributes', () => {
+            assert.strictEqual(MagicRules.astralAttribute('strength'), 'charisma');
+            assert.strictEqual(MagicRules.astralAttribute('agility'), 'logic');
+            assert.strictEqual(MagicRules.astralAttribute('body'), 'willpower');
+            assert.strictEqual(MagicRules.astralAttribute('reaction'), 'intuition');
+            assert.isUndefined(MagicRules.astralAttribute('logic'));
+        })
+
+        it('should use the higher of mental and social limit as astral limit', () => {
+            assert.strictEqual(MagicRules.astralLimit(5, 7), 7);
+            assert.strictEqual(MagicRules.astralLimit(6, 4), 6);
+        })
+
+        it('should apply a multitasking modifier only while perceiving', () => {
+            const magic = {projecting: false, perceiving: true} as Shadowrun.Magic;
+
+            assert.strictEqual(MagicRules.astralPerceptionModifier(magic), -2);
+            assert.strictEqual(MagicRules.astralPerceptionModifier({...magic, projecting: true}), 0);
+            assert.strictEqual(MagicRules.astralPerceptionModifier({...magic, perceiving: false}), 0);
+        })
+
+        it('should raise maximum magic with initiation', () => {
+            assert.strictEqual(MagicRules.maxMagic(0, 6), 6);
+            assert.strictEqual(MagicRules.maxMagic(3, 5.5), 8);
+        })
+
+        it('should calculate the karma cost of the next grade', () => {
+            assert.strictEqual(MagicRules.gradeKarmaCost(1), 13);
+            assert.strictEqual(MagicRules.gradeKarmaCost(4), 22);
+        })
+
+        it('should add the initiate grade through centering and shielding', () => {
+            assert.strictEqual(MagicRules.centeringDice(['centering'], 3), 3);
+            assert.strictEqual(MagicRules.centeringDice(['shielding'], 3), 0);
+            assert.strictEqual(MagicRules.shieldingDice(['shielding'], 2), 2);
+            assert.strictEqual(MagicRules.shieldingDice([], 2), 0);
+        })
+
+        it('should mask the aura with masking metamagics', () => {
+            assert.isTrue(MagicRules.isAuraMasked(['masking']));
+            assert.isTrue(MagicRules.isAuraMasked(['extended_masking']));
+            assert.isFalse(MagicRules.isAuraMasked(['centering']));
+        })
+
+        it('should calculate focus bonding karma by type and Force', () => {
+            assert.strictEqual(MagicRules.focusBondingKarma('power', 2), 12);
+            assert.strictEqual(MagicRules.focusBondingKarma('weapon', 3), 9);
+            assert.strictEqual(MagicRules.focusBondingKarma('spellcasting', 4), 8);
+            assert.strictEqual(MagicRules.focusBondingKarma('', 4), 0);
+        })
+
+        it('should risk focus addiction above twice the Magic', () => {
+            assert.strictEqual(MagicRules.focusForceLimit(5), 10);
+            assert.isFalse(MagicRules.risksFocusAddiction(10, 5));
+            assert.isTrue(MagicRules.risksFocusAddiction(11, 5));
+        })
+
+        it('should calculate spell drain with reckless spellcasting', () => {
+            assert.strictEqual(MagicRules.spellDrain(-3, 4, false), 2);
+            assert.strictEqual(MagicRules.spellDrain(-1, 6, false), 5);
+            assert.strictEqual(MagicRules.spellDrain(-1, 6, true), 8);
+        })
+
+        it('should cause physical drain when overcasting', () => {
+            assert.strictEqual(MagicRules.spellDrainDamageType(5, 4, 6), 'stun');
+            assert.strictEqual(MagicRules.spellDrainDamageType(7, 4, 6), 'physical');
+            assert.strictEqual(MagicRules.spellDrainDamageType(6, 7, 6), 'physical');
+        })
+
+        it('should use object resistance for non-psychic detection and physical manipulation', () => {
+            const spell = (category, detection, manipulation) => ({category, detection, manipulation}) as Shadowrun.SpellPartData;
+            const manipulation = {damaging: false, mental: false, environmental: false, physical: false};
+
+            assert.isTrue(MagicRules.usesObjectResistance(spell('detection', {type: 'area'}, manipulation)));
+            assert.isFalse(MagicRules.usesObjectResistance(spell('detection', {type: 'psychic'}, manipulation)));
+            assert.isTrue(MagicRules.usesObjectResistance(spell('manipulation', {}, {...manipulation, physical: true})));
+            assert.isFalse(MagicRules.usesObjectResistance(spell('manipulation', {}, {...manipulation, mental: true})));
+            assert.isFalse(MagicRules.usesObjectResistance(spell('combat', {}, manipulation)));
+        })
+
+        it('should resolve spell hits against a threshold', () => {
+            assert.strictEqual(MagicRules.objectResistanceThreshold('high_tech'), 3);
+            assert.strictEqual(MagicRules.objectResistanceThreshold(''), 0);
+            assert.strictEqual(MagicRules.spellNetHits(5, 3), 2);
+            assert.strictEqual(MagicRules.spellNetHits(2, 3), 0);
+            assert.isTrue(MagicRules.spellSucceeds(3, 3));
+            assert.isFalse(MagicRules.spellSucceeds(2, 3));
+            assert.isFalse(MagicRules.spellSucceeds(0, 0));
+        })
+
+        it('should gain more detection information with more net hits', () => {
+            assert.strictEqual(MagicRules.detectionResult(0), '');
+            assert.strictEqual(MagicRules.detectionResult(2), 'general');
+            assert.strictEqual(MagicRules.detectionResult(3), 'detailed');
+            assert.strictEqual(MagicRules.detectionResult(6), 'complete');
+        })
+    })
+}
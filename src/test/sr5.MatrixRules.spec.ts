@@ -0,0 +1,110 @@
+import {MatrixRules} from "../module/rules/MatrixRules";
+
+export const shadowrunRulesMatrix = context => {
+    const {describe, it, assert} = context;
+
+    describe('SR5 Matrix Rules', () => {
+        it('should modify placing multiple marks at once', () => {
+            assert.strictEqual(MatrixRules.markPlacementModifier(1), 0);
+            assert.strictEqual(MatrixRules.markPlacementModifier(2), -4);
+            assert.strictEqual(MatrixRules.markPlacementModifier(3), -10);
+        })
+
+        it('should add marks up to three', () => {
+            assert.strictEqual(MatrixRules.addMarks(0, 1), 1);
+            assert.strictEqual(MatrixRules.addMarks(2, 2), 3);
+            assert.strictEqual(MatrixRules.addMarks(0, -1), 0);
+        })
+
+        it('should check for required marks', () => {
+            assert.isTrue(MatrixRules.hasRequiredMarks(1, 0));
+            assert.isTrue(MatrixRules.hasRequiredMarks(3, 3));
+            assert.isFalse(MatrixRules.hasRequiredMarks(1, 2));
+        })
+
+        it('should swap two cyberdeck attributes', () => {
+            const atts = {att1: 'attack', att2: 'sleaze', att3: 'data_processing', att4: 'firewall'} as Shadowrun.DeviceAttributeAssignment;
+            const swapped = MatrixRules.swapDeviceAttributes(atts, 'att1', 'firewall');
+
+            assert.deepEqual(swapped, {att1: 'firewall', att2: 'sleaze', att3: 'data_processing', att4: 'attack'});
+            assert.strictEqual(atts.att1, 'attack');
+        })
+
+        it('should only reconfigure once per action phase without a configurator', () => {
+            assert.isTrue(MatrixRules.canReconfigure(false, false));
+            assert.isFalse(MatrixRules.canReconfigure(true, false));
+            assert.isTrue(MatrixRules.canReconfigure(true, true));
+        })
+
+        it('should find running program effects by name', () => {
+            assert.deepEqual(MatrixRules.programEffect('Biofeedback Filter'), {biofeedback_soak: 2});
+            assert.deepEqual(MatrixRules.programEffect('Browse'), {});
+            assert.strictEqual(MatrixRules.programBonus(['Armor', 'Shell', 'Toolbox'], 'matrix_soak'), 3);
+        })
+
+        it('should run as many programs as the device rating', () => {
+            assert.strictEqual(MatrixRules.programSlots(4, ['Armor']), 4);
+            assert.strictEqual(MatrixRules.programSlots(4, ['Virtual Machine']), 6);
+        })
+
+        it('should derive IC values from the host rating', () => {
+            assert.strictEqual(MatrixRules.icInitiativeBase(5), 10);
+            assert.strictEqual(MatrixRules.icConditionMonitor(5), 11);
+        })
+
+        it('should oppose IC attacks by their defense attributes', () => {
+            assert.deepEqual(MatrixRules.icAttack('killer'), {opposed: ['intuition', 'firewall'], damage: 'matrix'});
+            assert.isUndefined(MatrixRules.icAttack('patrol'));
+        })
+
+        it('should converge once the overwatch score reaches its limit', () => {
+            assert.isFalse(MatrixRules.isConverged(39));
+            assert.isTrue(MatrixRules.isConverged(40));
+            assert.isTrue(MatrixRules.triggersConvergence(38, 42));
+            assert.isFalse(MatrixRules.triggersConvergence(40, 42));
+        })
+
+        it('should deal physical dumpshock damage for hot sim', () => {
+            assert.strictEqual(MatrixRules.dumpshockDamageType(true), 'physical');
+            assert.strictEqual(MatrixRules.dumpshockDamageType(false), 'stun');
+        })
+
+        it('should mirror matrix damage as biofeedback depending on sim mode', () => {
+            assert.strictEqual(MatrixRules.biofeedbackDamageType('sim', true), 'physical');
+            assert.strictEqual(MatrixRules.biofeedbackDamageType('sim', false), 'stun');
+            assert.strictEqual(MatrixRules.biofeedbackDamageType('stun', true), 'stun');
+        })
+
+        it('should find attack effects of running hacking programs', () => {
+            assert.deepEqual(MatrixRules.programAttackEffect(['Biofeedback', 'Lockdown']), {biofeedback: 'sim', link_lock: true});
+            assert.deepEqual(MatrixRules.programAttackEffect(['Armor']), {});
+        })
+
+        it('should brick devices with a full matrix condition monitor', () => {
+            assert.isTrue(MatrixRules.isBricked(10, 10));
+            assert.isFalse(MatrixRules.isBricked(9, 10));
+            assert.isFalse(MatrixRules.isBricked(0, 0));
+        })
+
+        it('should raise maximum resonance with submersion', () => {
+            assert.strictEqual(MatrixRules.maxResonance(0, 6), 6);
+            assert.strictEqual(MatrixRules.maxResonance(2, 5.5), 7);
+        })
+
+        it('should grant a sprite task for each net hit', () => {
+            assert.strictEqual(MatrixRules.spriteServices(4, 1), 3);
+            assert.strictEqual(MatrixRules.spriteServices(1, 3), 0);
+        })
+
+        it('should cause twice the sprite hits as fade, but at least two', () => {
+            assert.strictEqual(MatrixRules.spriteFade(0), 2);
+            assert.strictEqual(MatrixRules.spriteFade(3), 6);
+            assert.strictEqual(MatrixRules.spriteFadeDamageType(5, 4), 'physical');
+            assert.strictEqual(MatrixRules.spriteFadeDamageType(4, 4), 'stun');
+        })
+
+        it('should resist registration with twice the sprite level', () => {
+            assert.strictEqual(MatrixRules.spriteRegistrationDice(3), 6);
+        })
+    })
+}
@@ -0,0 +1,36 @@
+import {VehicleRules} from "../module/rules/VehicleRules";
+
+export const shadowrunRulesVehicle = context => {
+    const {describe, it, assert} = context;
+
+    describe('SR5 Vehicle Rules', () => {
+        it('should use the gunnery attribute of the control mode', () => {
+            assert.equal(VehicleRules.gunneryAttribute('manual'), 'agility');
+            assert.equal(VehicleRules.gunneryAttribute('remote'), 'logic');
+            assert.equal(VehicleRules.gunneryAttribute('rigger'), 'logic');
+            assert.isUndefined(VehicleRules.gunneryAttribute('autopilot'));
+        })
+
+        it('should limit sensor guided gunnery by sensor', () => {
+            assert.isFalse(VehicleRules.gunneryUsesSensorLimit('manual'));
+            assert.isTrue(VehicleRules.gunneryUsesSensorLimit('remote'));
+            assert.isTrue(VehicleRules.gunneryUsesSensorLimit('rigger'));
+            assert.isTrue(VehicleRules.gunneryUsesSensorLimit('autopilot'));
+        })
+
+        it('should only let jumped in riggers fire through a drone', () => {
+            assert.isTrue(VehicleRules.canRiggerFireThrough('rigger'));
+            assert.isFalse(VehicleRules.canRiggerFireThrough('remote'));
+        })
+
+        it('should only match autosofts of the same type and weapon or model', () => {
+            const targeting = {type: 'targeting', target: 'Ares Alpha'} as Shadowrun.AutosoftData;
+            const clearsight = {type: 'clearsight', target: ''} as Shadowrun.AutosoftData;
+
+            assert.isTrue(VehicleRules.autosoftMatches(targeting, 'targeting', 'Ares Alpha'));
+            assert.isFalse(VehicleRules.autosoftMatches(targeting, 'targeting', 'FN HAR'));
+            assert.isFalse(VehicleRules.autosoftMatches(targeting, 'clearsight'));
+            assert.isTrue(VehicleRules.autosoftMatches(clearsight, 'clearsight'));
+        })
+    })
+}